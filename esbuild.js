@@ -1,4 +1,6 @@
 const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
 
 const production = process.argv.includes("--production");
 const watch = process.argv.includes("--watch");
@@ -23,7 +25,23 @@ const esbuildProblemMatcherPlugin = {
   },
 };
 
+// Diagram renderers run inside webviews and exported pages, so they ship as prebuilt files
+const WEBVIEW_ASSETS = [
+  "node_modules/mermaid/dist/mermaid.min.js",
+  "node_modules/@viz-js/viz/dist/viz-global.js",
+];
+
+function copyWebviewAssets() {
+  const outDir = path.join(__dirname, "dist", "media");
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const asset of WEBVIEW_ASSETS) {
+    fs.copyFileSync(path.join(__dirname, asset), path.join(outDir, path.basename(asset)));
+  }
+}
+
 async function main() {
+  copyWebviewAssets();
+
   const ctx = await esbuild.context({
     entryPoints: ["src/extension.ts"],
     bundle: true,
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { ChatMessage, chatCompletionWithTools, getAIConfig } from "./openai-client";
 import { TOOL_DEFINITIONS } from "./tools/definitions";
 import { executeTool } from "./tools/executor";
@@ -44,12 +45,13 @@ REQUIREMENTS:
 
 export async function runAgenticGeneration(
   folderUri: vscode.Uri,
+  home: vscode.WorkspaceFolder,
   logger: vscode.OutputChannel,
   progress: vscode.Progress<{ message?: string }>,
   cancellationToken: vscode.CancellationToken
 ): Promise<string | null> {
   const config = getAIConfig();
-  const rootFolder = vscode.workspace.asRelativePath(folderUri, false);
+  const rootFolder = path.relative(home.uri.fsPath, folderUri.fsPath) || ".";
 
   logger.appendLine(`\n${"=".repeat(60)}`);
   logger.appendLine(`[Agentic] Starting deep exploration`);
@@ -106,7 +108,12 @@ export async function runAgenticGeneration(
 
       const toolResults = await Promise.all(
         response.tool_calls.map(async (call) => {
-          const result = await executeTool(call.function.name, call.function.arguments, logger);
+          const result = await executeTool(
+            call.function.name,
+            call.function.arguments,
+            home.uri.fsPath,
+            logger
+          );
           const truncated =
             result.length > 8000
               ? result.slice(0, 8000) + "\n... (truncated)"
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import * as path from "path";
+import { getHomeFolder } from "../walkthrough/workspace";
 
 export interface FileContext {
   relativePath: string;
@@ -29,16 +30,18 @@ const MAX_PREVIEW_LINES = 80;
 export async function collectCodeContext(
   folderUri: vscode.Uri
 ): Promise<CodeContext> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders) {
+  const home = getHomeFolder(folderUri.fsPath);
+  if (!home) {
     return { rootFolder: "", files: [], totalLines: 0 };
   }
 
-  const rootPath = workspaceFolders[0].uri.fsPath;
+  // Paths are relative to the folder's own workspace folder, where the walkthrough will be saved
+  const rootPath = home.uri.fsPath;
   const relativeFolder = path.relative(rootPath, folderUri.fsPath) || ".";
-  const searchPattern = relativeFolder === "."
-    ? "**/*.{ts,tsx,js,jsx,py,go,rs,java,c,cpp,cs,rb,swift,kt}"
-    : `${relativeFolder}/**/*.{ts,tsx,js,jsx,py,go,rs,java,c,cpp,cs,rb,swift,kt}`;
+  const searchPattern = new vscode.RelativePattern(
+    folderUri,
+    "**/*.{ts,tsx,js,jsx,py,go,rs,java,c,cpp,cs,rb,swift,kt}"
+  );
 
   const ignorePattern = `{${IGNORED_PATTERNS.join(",")}}`;
   const uris = await vscode.workspace.findFiles(searchPattern, ignorePattern, MAX_FILES * 2);
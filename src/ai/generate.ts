@@ -4,6 +4,8 @@ import * as crypto from "crypto";
 import { CodeContext, collectCodeContext } from "./context";
 import { Walkthrough, WalkthroughStep } from "../walkthrough/types";
 import { getHeadSha } from "../git/git";
+import { getHomeFolder, resolveStepFile } from "../walkthrough/workspace";
+import { CURRENT_SCHEMA_VERSION } from "../walkthrough/migrate";
 import { chatCompletion, isAIConfigured } from "./openai-client";
 import { runAgenticGeneration } from "./agentic";
 
@@ -19,6 +21,13 @@ function getDefaultStrategy(): GenerationStrategy {
 export async function generateWalkthrough(
   folderUri: vscode.Uri
 ): Promise<vscode.Uri | null> {
+  // The walkthrough is saved in, and its paths are relative to, the folder's workspace folder
+  const home = getHomeFolder(folderUri.fsPath);
+  if (!home) {
+    vscode.window.showWarningMessage("No workspace open.");
+    return null;
+  }
+
   const defaultStrategy = getDefaultStrategy();
 
   const pick = await vscode.window.showQuickPick(
@@ -46,14 +55,15 @@ export async function generateWalkthrough(
   const strategy = pick.strategy ?? defaultStrategy;
 
   if (strategy === "deep") {
-    return generateWithAgenticStrategy(folderUri);
+    return generateWithAgenticStrategy(folderUri, home);
   }
 
-  return generateWithContextDumpStrategy(folderUri);
+  return generateWithContextDumpStrategy(folderUri, home);
 }
 
 async function generateWithAgenticStrategy(
-  folderUri: vscode.Uri
+  folderUri: vscode.Uri,
+  home: vscode.WorkspaceFolder
 ): Promise<vscode.Uri | null> {
   if (!isAIConfigured()) {
     const action = await vscode.window.showWarningMessage(
@@ -66,7 +76,7 @@ async function generateWithAgenticStrategy(
       return null;
     }
     if (action === "Use Quick Scan") {
-      return generateWithContextDumpStrategy(folderUri);
+      return generateWithContextDumpStrategy(folderUri, home);
     }
     return null;
   }
@@ -78,14 +88,14 @@ async function generateWithAgenticStrategy(
         title: "Deep exploration in progress...",
         cancellable: true,
       },
-      (progress, token) => runAgenticGeneration(folderUri, log, progress, token)
+      (progress, token) => runAgenticGeneration(folderUri, home, log, progress, token)
     );
 
     if (!rawResponse) {
       return null;
     }
 
-    return parseAndSave(rawResponse);
+    return parseAndSave(rawResponse, home);
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Unknown error";
     log.appendLine(`[Agentic] Fatal error: ${msg}`);
@@ -95,7 +105,8 @@ async function generateWithAgenticStrategy(
 }
 
 async function generateWithContextDumpStrategy(
-  folderUri: vscode.Uri
+  folderUri: vscode.Uri,
+  home: vscode.WorkspaceFolder
 ): Promise<vscode.Uri | null> {
   const context = await vscode.window.withProgress(
     {
@@ -115,14 +126,14 @@ async function generateWithContextDumpStrategy(
 
   const copilotModel = await selectCopilotModel();
   if (copilotModel) {
-    return generateViaCopilot(copilotModel, prompt);
+    return generateViaCopilot(copilotModel, prompt, home);
   }
 
   if (isAIConfigured()) {
-    return generateViaOpenAI(prompt);
+    return generateViaOpenAI(prompt, home);
   }
 
-  return fallbackToClipboard(prompt);
+  return fallbackToClipboard(prompt, home);
 }
 
 async function selectCopilotModel(): Promise<vscode.LanguageModelChat | null> {
@@ -138,7 +149,8 @@ async function selectCopilotModel(): Promise<vscode.LanguageModelChat | null> {
 
 async function generateViaCopilot(
   model: vscode.LanguageModelChat,
-  prompt: string
+  prompt: string,
+  home: vscode.WorkspaceFolder
 ): Promise<vscode.Uri | null> {
   log.appendLine(`\n${"=".repeat(60)}`);
   log.appendLine(`[API] Provider: VS Code Copilot Language Model API`);
@@ -173,21 +185,21 @@ async function generateViaCopilot(
     );
     log.appendLine(`[Copilot] Response length: ${response.length}`);
     log.appendLine(`[Copilot] Response (first 2000 chars):\n${response.slice(0, 2000)}`);
-    return parseAndSave(response);
+    return parseAndSave(response, home);
   } catch (err) {
     if (err instanceof vscode.LanguageModelError) {
       vscode.window.showErrorMessage(`Copilot failed: ${err.message}`);
     }
     if (isAIConfigured()) {
-      return generateViaOpenAI(prompt);
+      return generateViaOpenAI(prompt, home);
     }
-    return fallbackToClipboard(prompt);
+    return fallbackToClipboard(prompt, home);
   } finally {
     tokenSource.dispose();
   }
 }
 
-async function generateViaOpenAI(prompt: string): Promise<vscode.Uri | null> {
+async function generateViaOpenAI(prompt: string, home: vscode.WorkspaceFolder): Promise<vscode.Uri | null> {
   try {
     const response = await vscode.window.withProgress(
       {
@@ -206,16 +218,16 @@ async function generateViaOpenAI(prompt: string): Promise<vscode.Uri | null> {
     );
     log.appendLine(`[OpenAI] Response length: ${response.length}`);
     log.appendLine(`[OpenAI] Response (first 2000 chars):\n${response.slice(0, 2000)}`);
-    return parseAndSave(response);
+    return parseAndSave(response, home);
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Unknown error";
     log.appendLine(`[OpenAI] Error: ${msg}`);
     vscode.window.showErrorMessage(`API request failed: ${msg}`);
-    return fallbackToClipboard(prompt);
+    return fallbackToClipboard(prompt, home);
   }
 }
 
-async function fallbackToClipboard(prompt: string): Promise<vscode.Uri | null> {
+async function fallbackToClipboard(prompt: string, home: vscode.WorkspaceFolder): Promise<vscode.Uri | null> {
   await vscode.env.clipboard.writeText(prompt);
 
   const action = await vscode.window.showInformationMessage(
@@ -236,14 +248,17 @@ async function fallbackToClipboard(prompt: string): Promise<vscode.Uri | null> {
       placeHolder: '{ "title": "...", "steps": [...] }',
     });
     if (json) {
-      return parseAndSave(json);
+      return parseAndSave(json, home);
     }
   }
 
   return null;
 }
 
-async function parseAndSave(rawResponse: string): Promise<vscode.Uri | null> {
+async function parseAndSave(
+  rawResponse: string,
+  home: vscode.WorkspaceFolder
+): Promise<vscode.Uri | null> {
   log.appendLine(`[Parse] Raw response length: ${rawResponse.length}`);
   log.appendLine(`[Parse] Raw response:\n---START---\n${rawResponse}\n---END---`);
   log.show(true);
@@ -281,13 +296,8 @@ async function parseAndSave(rawResponse: string): Promise<vscode.Uri | null> {
       return null;
     }
 
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
-      return null;
-    }
-
-    const rootPath = workspaceFolders[0].uri.fsPath;
-    const commitSha = await getHeadSha();
+    const rootPath = home.uri.fsPath;
+    const commitSha = await getHeadSha(rootPath);
 
     const steps: WalkthroughStep[] = [];
     for (const s of parsed.steps) {
@@ -295,7 +305,7 @@ async function parseAndSave(rawResponse: string): Promise<vscode.Uri | null> {
         continue;
       }
 
-      const filePath = path.resolve(rootPath, s.file);
+      const filePath = resolveStepFile(s.file, home) ?? path.resolve(rootPath, s.file);
       let contentHash: string | undefined;
 
       try {
@@ -331,6 +341,7 @@ async function parseAndSave(rawResponse: string): Promise<vscode.Uri | null> {
     }
 
     const walkthrough: Walkthrough = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       title: parsed.title,
       description: parsed.description ?? "",
       commitSha: commitSha ?? undefined,
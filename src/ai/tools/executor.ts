@@ -6,25 +6,19 @@ const MAX_FILE_LINES = 500;
 const MAX_SEARCH_RESULTS = 30;
 const MAX_LIST_ENTRIES = 100;
 
-function getWorkspaceRoot(): string {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders || folders.length === 0) {
-    throw new Error("No workspace open");
-  }
-  return folders[0].uri.fsPath;
-}
-
-function resolveSafePath(relativePath: string): string {
-  const root = getWorkspaceRoot();
+// Tools only see `root`, the workspace folder the walkthrough is generated in
+function resolveSafePath(root: string, relativePath: string): string {
   const resolved = path.resolve(root, relativePath);
-  if (!resolved.startsWith(root)) {
+  const relative = path.relative(root, resolved);
+  // A prefix check would let "../app-secrets" through for a root of ".../app"
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
     throw new Error(`Access denied: path "${relativePath}" is outside workspace`);
   }
   return resolved;
 }
 
-async function listFiles(args: { path: string }): Promise<string> {
-  const dirPath = resolveSafePath(args.path);
+async function listFiles(root: string, args: { path: string }): Promise<string> {
+  const dirPath = resolveSafePath(root, args.path);
   const uri = vscode.Uri.file(dirPath);
 
   try {
@@ -58,12 +52,12 @@ async function listFiles(args: { path: string }): Promise<string> {
   }
 }
 
-async function readFile(args: {
+async function readFile(root: string, args: {
   path: string;
   start_line?: string;
   end_line?: string;
 }): Promise<string> {
-  const filePath = resolveSafePath(args.path);
+  const filePath = resolveSafePath(root, args.path);
   const uri = vscode.Uri.file(filePath);
 
   try {
@@ -98,12 +92,11 @@ async function readFile(args: {
   }
 }
 
-async function searchFiles(args: {
+async function searchFiles(root: string, args: {
   pattern: string;
   include?: string;
 }): Promise<string> {
-  const root = getWorkspaceRoot();
-  const includePattern = args.include ?? "**/*";
+  const includePattern = new vscode.RelativePattern(root, args.include ?? "**/*");
   const ignorePattern = "{**/node_modules/**,**/dist/**,**/.git/**,**/.walkthrough/**,**/*.lock}";
 
   const uris = await vscode.workspace.findFiles(includePattern, ignorePattern, 200);
@@ -141,8 +134,8 @@ async function searchFiles(args: {
     : `No matches found for "${args.pattern}"`;
 }
 
-async function getSymbols(args: { path: string }): Promise<string> {
-  const filePath = resolveSafePath(args.path);
+async function getSymbols(root: string, args: { path: string }): Promise<string> {
+  const filePath = resolveSafePath(root, args.path);
   const uri = vscode.Uri.file(filePath);
 
   try {
@@ -200,6 +193,7 @@ function flattenSymbols(
 export async function executeTool(
   name: string,
   argsJson: string,
+  root: string,
   logger?: vscode.OutputChannel
 ): Promise<string> {
   if (!TOOL_NAMES.includes(name)) {
@@ -220,16 +214,16 @@ export async function executeTool(
   let result: string;
   switch (name) {
     case "list_files":
-      result = await listFiles(args as { path: string });
+      result = await listFiles(root, args as { path: string });
       break;
     case "read_file":
-      result = await readFile(args as { path: string; start_line?: string; end_line?: string });
+      result = await readFile(root, args as { path: string; start_line?: string; end_line?: string });
       break;
     case "search":
-      result = await searchFiles(args as { pattern: string; include?: string });
+      result = await searchFiles(root, args as { pattern: string; include?: string });
       break;
     case "get_symbols":
-      result = await getSymbols(args as { path: string });
+      result = await getSymbols(root, args as { path: string });
       break;
     default:
       result = `Error: Unknown tool "${name}"`;
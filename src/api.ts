@@ -0,0 +1,64 @@
+import * as vscode from "vscode";
+import { PlaybackStatus } from "./player/engine";
+import { Walkthrough, WalkthroughFile } from "./walkthrough/types";
+import { DeepLinkContext } from "./walkthrough/deeplink";
+
+// The object `activate` returns to other extensions:
+//
+//   const api = vscode.extensions.getExtension<CodeWalkthroughApi>("code-walkthrough.code-walkthrough")
+//     ?.exports;
+//   if (api?.version === 1) { ... }
+//
+// Bump API_VERSION on any breaking change to CodeWalkthroughApi. Additions keep the version.
+
+export const API_VERSION = 1;
+
+export type { PlaybackStatus } from "./player/engine";
+export type { Walkthrough, WalkthroughChapter, WalkthroughFile, WalkthroughStep, StepAnchor } from "./walkthrough/types";
+export type { DeepLinkContext } from "./walkthrough/deeplink";
+
+export interface RecordingStatus {
+  recording: boolean;
+  stepCount: number;
+  // Anchors staged for the next captured step
+  pendingAnchors: number;
+}
+
+export interface WalkthroughExporter {
+  // Shown in the export format picker
+  label: string;
+  description: string;
+  // File extension without the dot
+  ext: string;
+  // Save dialog filter name; defaults to `label`
+  filterName?: string;
+  // Open the result in a text editor rather than externally; defaults to false
+  openInEditor?: boolean;
+  // Folder the save dialog starts in, relative to the walkthrough's workspace folder
+  defaultFolder?: string;
+  // `links` builds vscode:// deep links back to the exported walkthrough or its steps
+  render(walkthrough: Walkthrough, links: DeepLinkContext): Promise<string>;
+}
+
+export interface CodeWalkthroughApi {
+  readonly version: typeof API_VERSION;
+
+  // Walkthroughs and CodeTour tours discovered in the workspace
+  listWalkthroughs(): Promise<WalkthroughFile[]>;
+
+  // Plays a discovered file, a walkthrough file by URI, or an in-memory walkthrough.
+  // In-memory walkthroughs skip resume prompts and progress tracking. `stepIndex` is 0-based.
+  play(target: WalkthroughFile | Walkthrough | vscode.Uri, stepIndex?: number): Promise<void>;
+  goTo(stepIndex: number): void;
+  stop(): void;
+  getStatus(): PlaybackStatus;
+
+  readonly onDidChangePlayback: vscode.Event<PlaybackStatus>;
+  // Fires when the reader steps past the last step
+  readonly onDidFinishWalkthrough: vscode.Event<Walkthrough>;
+  readonly onDidChangeRecording: vscode.Event<RecordingStatus>;
+  readonly onDidSaveRecording: vscode.Event<vscode.Uri>;
+
+  // Adds a format to `Walkthrough: Export Walkthrough`; dispose to remove it
+  registerExporter(exporter: WalkthroughExporter): vscode.Disposable;
+}
@@ -0,0 +1,119 @@
+import * as vscode from "vscode";
+import { StepAnchor, Walkthrough, getChapterRanges, getStepAnchors } from "../walkthrough/types";
+import { resolveStepFile } from "../walkthrough/workspace";
+
+const CODETOUR_SCHEMA = "https://aka.ms/codetour-schema";
+
+export interface CodeTourExportOptions {
+  // Workspace folder step paths resolve against; defaults to the first folder
+  folder?: vscode.WorkspaceFolder;
+}
+
+interface CodeTourPosition {
+  line: number;
+  character: number;
+}
+
+interface CodeTourStep {
+  title?: string;
+  file: string;
+  line: number;
+  selection?: { start: CodeTourPosition; end: CodeTourPosition };
+  description: string;
+}
+
+async function lineLength(
+  folder: vscode.WorkspaceFolder | undefined,
+  file: string,
+  line: number
+): Promise<number | null> {
+  const filePath = resolveStepFile(file, folder);
+  if (!filePath) {
+    return null;
+  }
+  try {
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const index = Math.min(doc.lineCount - 1, Math.max(0, line - 1));
+    return doc.lineAt(index).text.length;
+  } catch {
+    return null;
+  }
+}
+
+// Single whole lines map to `line`; anything wider or column-precise becomes a 1-based `selection`
+async function toTourLocation(
+  folder: vscode.WorkspaceFolder | undefined,
+  anchor: StepAnchor
+): Promise<Pick<CodeTourStep, "file" | "line" | "selection">> {
+  const [start, end] = anchor.lines;
+
+  if (anchor.columns) {
+    return {
+      file: anchor.file,
+      line: end,
+      selection: {
+        start: { line: start, character: anchor.columns[0] },
+        end: { line: end, character: anchor.columns[1] },
+      },
+    };
+  }
+
+  if (start === end) {
+    return { file: anchor.file, line: start };
+  }
+
+  const endLength = await lineLength(folder, anchor.file, end);
+  return {
+    file: anchor.file,
+    line: end,
+    selection: {
+      start: { line: start, character: 1 },
+      end: { line: end, character: (endLength ?? 0) + 1 },
+    },
+  };
+}
+
+export async function exportToCodeTour(
+  walkthrough: Walkthrough,
+  options: CodeTourExportOptions = {}
+): Promise<string> {
+  const { folder } = options;
+
+  const chapterStarts = new Map(getChapterRanges(walkthrough).map((r) => [r.start, r]));
+  const steps: CodeTourStep[] = [];
+
+  for (let i = 0; i < walkthrough.steps.length; i++) {
+    const step = walkthrough.steps[i];
+    const [primary, ...extra] = getStepAnchors(step);
+    const chapter = chapterStarts.get(i)?.chapter;
+
+    const description = chapter
+      ? `### ${chapter.title}\n\n${chapter.description ? `${chapter.description}\n\n` : ""}${step.subtitle}`
+      : step.subtitle;
+
+    steps.push({
+      ...(chapter ? { title: chapter.title } : {}),
+      ...(await toTourLocation(folder, primary)),
+      description,
+    });
+
+    // CodeTour steps have a single location, so extra anchors become follow-up steps
+    for (let j = 0; j < extra.length; j++) {
+      steps.push({
+        title: `Step ${i + 1} (${j + 2}/${extra.length + 1})`,
+        ...(await toTourLocation(folder, extra[j])),
+        description: `Continued from step ${i + 1}.`,
+      });
+    }
+  }
+
+  const tour = {
+    $schema: CODETOUR_SCHEMA,
+    title: walkthrough.title,
+    description: walkthrough.description,
+    ...(walkthrough.commitSha ? { ref: walkthrough.commitSha } : {}),
+    steps,
+  };
+
+  return JSON.stringify(tour, null, 2) + "\n";
+}
@@ -1,6 +1,25 @@
 import * as vscode from "vscode";
-import * as path from "path";
-import { Walkthrough, WalkthroughStep } from "../walkthrough/types";
+import { ChapterRange, StepAnchor, Walkthrough, getChapterRanges, getStepAnchors } from "../walkthrough/types";
+import { SubtitleLink, codeLinkHref, describeSubtitleLink, renderSubtitleHtml } from "../walkthrough/subtitle";
+import {
+  DIAGRAM_SCRIPTS,
+  DIAGRAM_STYLES,
+  DiagramLanguage,
+  diagramBootstrapScript,
+  findDiagramLanguages,
+  renderDiagramFence,
+} from "../ui/diagrams";
+import { DeepLinkContext } from "../walkthrough/deeplink";
+import { resolveStepFile } from "../walkthrough/workspace";
+
+export interface HtmlExportOptions {
+  // Folder holding the bundled diagram renderers (dist/media); without it diagrams stay as source
+  mediaRoot?: vscode.Uri;
+  // Adds "Open in VS Code" links and turns walkthrough references into deep links
+  deepLinks?: DeepLinkContext;
+  // Workspace folder step paths resolve against; defaults to the first folder
+  folder?: vscode.WorkspaceFolder;
+}
 
 function escapeHtml(text: string): string {
   return text
@@ -10,16 +29,49 @@ function escapeHtml(text: string): string {
     .replace(/"/g, "&quot;");
 }
 
+function lineLabel(lines: [number, number]): string {
+  return lines[0] === lines[1] ? `L${lines[0]}` : `L${lines[0]}-${lines[1]}`;
+}
+
+// Workspace-only targets (symbols, and other walkthroughs unless deep links are on) have
+// nowhere to go in a static page
+function renderSubtitleLink(
+  link: SubtitleLink,
+  label: string,
+  stepCount: number,
+  deepLinks?: DeepLinkContext
+): string {
+  const title = escapeHtml(describeSubtitleLink(link));
+  switch (link.kind) {
+    case "code":
+      return `<a class="code-ref" href="${escapeHtml(codeLinkHref(link))}" title="${title}">${label}</a>`;
+    case "step":
+      return link.step >= 1 && link.step <= stepCount
+        ? `<a href="#step-${link.step - 1}" title="${title}">${label}</a>`
+        : label;
+    case "external":
+      return `<a href="${escapeHtml(link.url)}" rel="noopener noreferrer">${label}</a>`;
+    case "walkthrough":
+      return deepLinks
+        ? `<a href="${escapeHtml(deepLinks.link(link.id, link.step))}" title="${title}">${label}</a>`
+        : `<span class="ref" title="${title}">${label}</span>`;
+    case "symbol":
+      return `<span class="ref" title="${title}">${label}</span>`;
+  }
+}
+
 async function readLines(
-  rootPath: string,
-  step: WalkthroughStep
+  folder: vscode.WorkspaceFolder | undefined,
+  anchor: StepAnchor
 ): Promise<string | null> {
-  const filePath = path.resolve(rootPath, step.file);
-  const uri = vscode.Uri.file(filePath);
+  const filePath = resolveStepFile(anchor.file, folder);
+  if (!filePath) {
+    return null;
+  }
   try {
-    const doc = await vscode.workspace.openTextDocument(uri);
-    const startLine = Math.max(0, step.lines[0] - 1);
-    const endLine = Math.min(doc.lineCount - 1, step.lines[1] - 1);
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const startLine = Math.max(0, anchor.lines[0] - 1);
+    const endLine = Math.min(doc.lineCount - 1, anchor.lines[1] - 1);
     const lines: string[] = [];
     for (let i = startLine; i <= endLine; i++) {
       lines.push(doc.lineAt(i).text);
@@ -30,10 +82,30 @@ async function readLines(
   }
 }
 
+// Wraps the column-precise part of each line in <mark> so the exact expression stands out
+function renderLine(
+  line: string,
+  index: number,
+  lastIndex: number,
+  columns?: [number, number]
+): string {
+  if (!columns) {
+    return escapeHtml(line);
+  }
+  const from = index === 0 ? Math.max(0, columns[0] - 1) : 0;
+  const to = index === lastIndex ? Math.max(from, columns[1] - 1) : line.length;
+  return (
+    escapeHtml(line.slice(0, from)) +
+    `<mark class="focus">${escapeHtml(line.slice(from, to))}</mark>` +
+    escapeHtml(line.slice(to))
+  );
+}
+
 function renderCodeBlock(
   code: string,
   startLine: number,
-  filePath: string
+  filePath: string,
+  columns?: [number, number]
 ): string {
   const lines = code.split("\n");
   const lineNumberWidth = String(startLine + lines.length - 1).length;
@@ -41,7 +113,7 @@ function renderCodeBlock(
     .map((line, i) => {
       const num = startLine + i;
       const padded = String(num).padStart(lineNumberWidth, " ");
-      return `<tr><td class="line-num">${padded}</td><td class="line-code">${escapeHtml(line)}</td></tr>`;
+      return `<tr><td class="line-num">${padded}</td><td class="line-code">${renderLine(line, i, lines.length - 1, columns)}</td></tr>`;
     })
     .join("\n");
 
@@ -51,35 +123,115 @@ function renderCodeBlock(
 </div>`;
 }
 
-export async function exportToHtml(walkthrough: Walkthrough): Promise<string> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  const rootPath = workspaceFolders?.[0]?.uri.fsPath ?? "";
+function renderToc(walkthrough: Walkthrough, chapters: ChapterRange[]): string {
+  const stepItem = (i: number) => {
+    const s = walkthrough.steps[i];
+    const summary = s.subtitle.length > 60 ? s.subtitle.slice(0, 60) + "..." : s.subtitle;
+    return `<li value="${i + 1}"><a href="#step-${i}">${escapeHtml(s.file)} &mdash; ${escapeHtml(summary)}</a></li>`;
+  };
+  const stepRange = (start: number, end: number) => {
+    const items: string[] = [];
+    for (let i = start; i < end; i++) {
+      items.push(stepItem(i));
+    }
+    return items;
+  };
+
+  if (chapters.length === 0) {
+    return `<ol>
+      ${stepRange(0, walkthrough.steps.length).join("\n      ")}
+    </ol>`;
+  }
+
+  const chapterItems = chapters.map(
+    (r) => `<li class="toc-chapter"><a href="#chapter-${r.chapterIndex}">${escapeHtml(r.chapter.title)}</a>
+        <ol>
+          ${stepRange(r.start, r.end).join("\n          ")}
+        </ol>
+      </li>`
+  );
+
+  return `<ol>
+      ${[...stepRange(0, chapters[0].start), ...chapterItems].join("\n      ")}
+    </ol>`;
+}
+
+// Inlines the renderer scripts so the exported page works offline, like the rest of it
+async function renderDiagramScripts(
+  languages: DiagramLanguage[],
+  mediaRoot: vscode.Uri | undefined
+): Promise<string> {
+  if (languages.length === 0 || !mediaRoot) {
+    return "";
+  }
+  const scripts: string[] = [];
+  for (const language of languages) {
+    try {
+      const raw = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(mediaRoot, DIAGRAM_SCRIPTS[language]));
+      scripts.push(`<script>${Buffer.from(raw).toString("utf-8").replace(/<\/script/gi, "<\\/script")}</script>`);
+    } catch {
+    }
+  }
+  return `${scripts.join("\n")}
+<script>${diagramBootstrapScript(true)}</script>`;
+}
+
+export async function exportToHtml(
+  walkthrough: Walkthrough,
+  options: HtmlExportOptions = {}
+): Promise<string> {
+  const { deepLinks, folder } = options;
 
   const steps: string[] = [];
+  const chapters = getChapterRanges(walkthrough);
+  const chapterStarts = new Map(chapters.map((r) => [r.start, r]));
 
   for (let i = 0; i < walkthrough.steps.length; i++) {
     const step = walkthrough.steps[i];
-    const lineLabel =
-      step.lines[0] === step.lines[1]
-        ? `L${step.lines[0]}`
-        : `L${step.lines[0]}-${step.lines[1]}`;
+    const anchors = getStepAnchors(step);
+    const chapterStart = chapterStarts.get(i);
+    const chapterHtml = chapterStart
+      ? `
+    <h2 class="chapter" id="chapter-${chapterStart.chapterIndex}">${escapeHtml(chapterStart.chapter.title)}</h2>${chapterStart.chapter.description ? `
+    <p class="chapter-description">${escapeHtml(chapterStart.chapter.description)}</p>` : ""}`
+      : "";
 
-    const code = await readLines(rootPath, step);
-    const codeHtml = code !== null
-      ? renderCodeBlock(code, step.lines[0], `${step.file} (${lineLabel})`)
-      : `<p class="error">Could not read ${escapeHtml(step.file)}</p>`;
+    const codeBlocks: string[] = [];
+    for (const anchor of anchors) {
+      const code = await readLines(folder, anchor);
+      codeBlocks.push(
+        code !== null
+          ? renderCodeBlock(code, anchor.lines[0], `${anchor.file} (${lineLabel(anchor.lines)})`, anchor.columns)
+          : `<p class="error">Could not read ${escapeHtml(anchor.file)}</p>`
+      );
+    }
+    const codeHtml = anchors.length > 1
+      ? `<div class="anchors">${codeBlocks.join("\n")}</div>`
+      : codeBlocks[0];
+    const extraLabel = anchors.length > 1
+      ? ` <span class="step-extra">+${anchors.length - 1} more</span>`
+      : "";
 
-    steps.push(`
+    steps.push(`${chapterHtml}
     <section class="step" id="step-${i}">
       <div class="step-header">
         <span class="step-number">${i + 1}</span>
-        <span class="step-file">${escapeHtml(step.file)} <span class="step-lines">${lineLabel}</span></span>
+        <span class="step-file">${escapeHtml(step.file)} <span class="step-lines">${lineLabel(step.lines)}</span>${extraLabel}</span>${deepLinks ? `
+        <a class="open-in-vscode" href="${escapeHtml(deepLinks.link(deepLinks.walkthroughId, i + 1))}">Open in VS Code</a>` : ""}
       </div>
-      <p class="subtitle">${escapeHtml(step.subtitle)}</p>
+      <div class="subtitle">${renderSubtitleHtml(step.subtitle, {
+        renderLink: (link, label) => renderSubtitleLink(link, label, walkthrough.steps.length, deepLinks),
+        renderFence: renderDiagramFence,
+      })}</div>
       ${codeHtml}
     </section>`);
   }
 
+  const diagramLanguages = [
+    ...new Set(walkthrough.steps.flatMap((s) => findDiagramLanguages(s.subtitle))),
+  ];
+  const diagramScripts = await renderDiagramScripts(diagramLanguages, options.mediaRoot);
+
   const commitNote = walkthrough.commitSha
     ? `<p class="commit">Commit: <code>${walkthrough.commitSha.slice(0, 7)}</code></p>`
     : "";
@@ -111,6 +263,11 @@ export async function exportToHtml(walkthrough: Walkthrough): Promise<string> {
   .toc li { margin-bottom: 0.25rem; }
   .toc a { color: #60a5fa; text-decoration: none; }
   .toc a:hover { text-decoration: underline; }
+  .toc .toc-chapter { list-style: none; margin: 0.5rem 0 0.25rem -1.5rem; }
+  .toc .toc-chapter > a { color: #e4e4e7; font-weight: 600; }
+  .toc .toc-chapter ol { margin-top: 0.25rem; }
+  .chapter { font-size: 1.4rem; color: #fafafa; margin-bottom: 0.25rem; }
+  .chapter-description { color: #a1a1aa; margin-bottom: 1.5rem; }
   hr { border: none; border-top: 1px solid #27272a; margin: 2rem 0; }
   .step { margin-bottom: 2.5rem; }
   .step-header { display: flex; align-items: center; gap: 0.75rem; margin-bottom: 0.5rem; }
@@ -121,7 +278,19 @@ export async function exportToHtml(walkthrough: Walkthrough): Promise<string> {
   }
   .step-file { font-family: "SF Mono", "Fira Code", Consolas, monospace; font-size: 0.9rem; color: #d4d4d8; }
   .step-lines { color: #71717a; }
+  .step-extra { color: #71717a; font-size: 0.8rem; }
+  .open-in-vscode { margin-left: auto; color: #60a5fa; font-size: 0.8rem; text-decoration: none; white-space: nowrap; }
+  .open-in-vscode:hover { text-decoration: underline; }
+  .anchors { display: flex; flex-direction: column; gap: 0.75rem; }
   .subtitle { color: #d4d4d8; margin-bottom: 0.75rem; font-size: 0.95rem; }
+  .subtitle p, .subtitle ul, .subtitle ol, .subtitle pre, .subtitle blockquote { margin-bottom: 0.5rem; }
+  .subtitle ul, .subtitle ol { padding-left: 1.5rem; }
+  .subtitle code { background: #27272a; padding: 0.1em 0.35em; border-radius: 4px; font-size: 0.85em; }
+  .subtitle pre { background: #1e1e1e; border: 1px solid #2e2e32; border-radius: 6px; padding: 0.5rem 0.75rem; overflow-x: auto; }
+  .subtitle pre code { background: none; padding: 0; }
+  .subtitle blockquote { border-left: 3px solid #3f3f46; padding-left: 0.75rem; color: #a1a1aa; }
+  .subtitle a { color: #60a5fa; }
+  .subtitle .ref { border-bottom: 1px dotted #71717a; }${DIAGRAM_STYLES}
   .code-block {
     background: #1e1e1e;
     border: 1px solid #2e2e32;
@@ -140,6 +309,7 @@ export async function exportToHtml(walkthrough: Walkthrough): Promise<string> {
   .code-table td { padding: 0 1rem; white-space: pre; font-family: "SF Mono", "Fira Code", Consolas, monospace; font-size: 0.85rem; line-height: 1.6; }
   .line-num { color: #52525b; text-align: right; user-select: none; width: 1%; padding-right: 1rem; border-right: 1px solid #2e2e32; }
   .line-code { color: #d4d4d8; }
+  .line-code mark.focus { background: rgba(250, 204, 21, 0.25); color: #fef9c3; border-radius: 2px; outline: 1px solid rgba(250, 204, 21, 0.5); }
   .error { color: #f87171; font-style: italic; }
   .nav {
     position: fixed; bottom: 1.5rem; right: 1.5rem;
@@ -161,14 +331,13 @@ export async function exportToHtml(walkthrough: Walkthrough): Promise<string> {
 </head>
 <body>
   <h1>${escapeHtml(walkthrough.title)}</h1>
-  <p class="description">${escapeHtml(walkthrough.description)}</p>
+  <p class="description">${escapeHtml(walkthrough.description)}</p>${deepLinks ? `
+  <p><a class="open-in-vscode" href="${escapeHtml(deepLinks.link(deepLinks.walkthroughId))}">Open in VS Code</a></p>` : ""}
   ${commitNote}
 
   <nav class="toc">
     <h2>Steps</h2>
-    <ol>
-      ${walkthrough.steps.map((s, i) => `<li><a href="#step-${i}">${escapeHtml(s.file)} &mdash; ${escapeHtml(s.subtitle.length > 60 ? s.subtitle.slice(0, 60) + "..." : s.subtitle)}</a></li>`).join("\n      ")}
-    </ol>
+    ${renderToc(walkthrough, chapters)}
   </nav>
 
   <hr>
@@ -232,6 +401,7 @@ export async function exportToHtml(walkthrough: Walkthrough): Promise<string> {
   updateNav();
 })();
 </script>
+${diagramScripts}
 </body>
 </html>`;
 }
@@ -1,6 +1,16 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { Walkthrough, WalkthroughStep } from "../walkthrough/types";
+import { StepAnchor, Walkthrough, getChapterRanges, getStepAnchors } from "../walkthrough/types";
+import { SubtitleLink, codeLinkHref, rewriteSubtitleLinks } from "../walkthrough/subtitle";
+import { DeepLinkContext } from "../walkthrough/deeplink";
+import { resolveStepFile } from "../walkthrough/workspace";
+
+export interface MarkdownExportOptions {
+  // Adds "Open in VS Code" links and turns walkthrough references into deep links
+  deepLinks?: DeepLinkContext;
+  // Workspace folder step paths resolve against; defaults to the first folder
+  folder?: vscode.WorkspaceFolder;
+}
 
 function inferLanguage(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
@@ -40,16 +50,22 @@ function inferLanguage(filePath: string): string {
   return map[ext] ?? "";
 }
 
+function lineLabel(lines: [number, number]): string {
+  return lines[0] === lines[1] ? `L${lines[0]}` : `L${lines[0]}-${lines[1]}`;
+}
+
 async function readLines(
-  rootPath: string,
-  step: WalkthroughStep
+  folder: vscode.WorkspaceFolder | undefined,
+  anchor: StepAnchor
 ): Promise<string | null> {
-  const filePath = path.resolve(rootPath, step.file);
-  const uri = vscode.Uri.file(filePath);
+  const filePath = resolveStepFile(anchor.file, folder);
+  if (!filePath) {
+    return null;
+  }
   try {
-    const doc = await vscode.workspace.openTextDocument(uri);
-    const startLine = Math.max(0, step.lines[0] - 1);
-    const endLine = Math.min(doc.lineCount - 1, step.lines[1] - 1);
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const startLine = Math.max(0, anchor.lines[0] - 1);
+    const endLine = Math.min(doc.lineCount - 1, anchor.lines[1] - 1);
     const lines: string[] = [];
     for (let i = startLine; i <= endLine; i++) {
       lines.push(doc.lineAt(i).text);
@@ -60,11 +76,33 @@ async function readLines(
   }
 }
 
+// Same targets as the HTML export: workspace-only links (symbols, and other walkthroughs unless
+// deep links are on) become plain text
+function exportLink(
+  link: SubtitleLink,
+  text: string,
+  stepCount: number,
+  deepLinks?: DeepLinkContext
+): string {
+  switch (link.kind) {
+    case "code":
+      return `[${text}](${codeLinkHref(link)})`;
+    case "step":
+      return link.step >= 1 && link.step <= stepCount ? `[${text}](#step-${link.step})` : text;
+    case "external":
+      return `[${text}](${link.url})`;
+    case "walkthrough":
+      return deepLinks ? `[${text}](${deepLinks.link(link.id, link.step)})` : text;
+    case "symbol":
+      return text;
+  }
+}
+
 export async function exportToMarkdown(
-  walkthrough: Walkthrough
+  walkthrough: Walkthrough,
+  options: MarkdownExportOptions = {}
 ): Promise<string> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  const rootPath = workspaceFolders?.[0]?.uri.fsPath ?? "";
+  const { deepLinks, folder } = options;
 
   const sections: string[] = [];
 
@@ -72,34 +110,83 @@ export async function exportToMarkdown(
   sections.push("");
   sections.push(walkthrough.description);
   sections.push("");
+  if (deepLinks) {
+    sections.push(`[Open in VS Code](${deepLinks.link(deepLinks.walkthroughId)})`);
+    sections.push("");
+  }
   if (walkthrough.commitSha) {
     sections.push(`> Commit: \`${walkthrough.commitSha.slice(0, 7)}\``);
     sections.push("");
   }
+
+  const chapters = getChapterRanges(walkthrough);
+  const chapterStarts = new Map(chapters.map((r) => [r.start, r]));
+  const stepHeading = chapters.length > 0 ? "###" : "##";
+
+  if (chapters.length > 0) {
+    sections.push("## Contents");
+    sections.push("");
+    const tocStep = (i: number, indent: string) =>
+      `${indent}- [Step ${i + 1}: ${walkthrough.steps[i].file}](#step-${i + 1})`;
+    for (let i = 0; i < chapters[0].start; i++) {
+      sections.push(tocStep(i, ""));
+    }
+    for (const range of chapters) {
+      sections.push(`- [${range.chapter.title}](#chapter-${range.chapterIndex + 1})`);
+      for (let i = range.start; i < range.end; i++) {
+        sections.push(tocStep(i, "  "));
+      }
+    }
+    sections.push("");
+  }
+
   sections.push("---");
   sections.push("");
 
   for (let i = 0; i < walkthrough.steps.length; i++) {
     const step = walkthrough.steps[i];
-    const lang = inferLanguage(step.file);
-    const lineLabel = step.lines[0] === step.lines[1]
-      ? `L${step.lines[0]}`
-      : `L${step.lines[0]}-${step.lines[1]}`;
+    const anchors = getStepAnchors(step);
+    const extra = anchors.length > 1 ? ` +${anchors.length - 1} more` : "";
+
+    const chapterStart = chapterStarts.get(i);
+    if (chapterStart) {
+      sections.push(`<a id="chapter-${chapterStart.chapterIndex + 1}"></a>`);
+      sections.push("");
+      sections.push(`## ${chapterStart.chapter.title}`);
+      sections.push("");
+      if (chapterStart.chapter.description) {
+        sections.push(chapterStart.chapter.description);
+        sections.push("");
+      }
+    }
 
-    sections.push(`## Step ${i + 1}: \`${step.file}\` (${lineLabel})`);
+    sections.push(`<a id="step-${i + 1}"></a>`);
+    sections.push("");
+    sections.push(`${stepHeading} Step ${i + 1}: \`${step.file}\` (${lineLabel(step.lines)})${extra}`);
     sections.push("");
-    sections.push(step.subtitle);
+    sections.push(rewriteSubtitleLinks(step.subtitle, (link, text) => exportLink(link, text, walkthrough.steps.length, deepLinks)));
     sections.push("");
+    if (deepLinks) {
+      sections.push(`[Open step ${i + 1} in VS Code](${deepLinks.link(deepLinks.walkthroughId, i + 1)})`);
+      sections.push("");
+    }
 
-    const code = await readLines(rootPath, step);
-    if (code !== null) {
-      sections.push(`\`\`\`${lang}`);
-      sections.push(code);
-      sections.push("```");
-    } else {
-      sections.push(`*Could not read \`${step.file}\`*`);
+    for (const anchor of anchors) {
+      if (anchors.length > 1) {
+        sections.push(`**\`${anchor.file}\` (${lineLabel(anchor.lines)})**`);
+        sections.push("");
+      }
+
+      const code = await readLines(folder, anchor);
+      if (code !== null) {
+        sections.push(`\`\`\`${inferLanguage(anchor.file)}`);
+        sections.push(code);
+        sections.push("```");
+      } else {
+        sections.push(`*Could not read \`${anchor.file}\`*`);
+      }
+      sections.push("");
     }
-    sections.push("");
 
     if (i < walkthrough.steps.length - 1) {
       sections.push("---");
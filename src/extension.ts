@@ -1,68 +1,139 @@
 import * as vscode from "vscode";
-import { discoverWalkthroughs } from "./walkthrough/loader";
-import { checkStaleness, StaleCheckResult } from "./walkthrough/staleness";
-import { PlaybackEngine, SpeedMultiplier, SPEED_OPTIONS } from "./player/engine";
-import { navigateToStep, clearAllHighlights } from "./player/highlight";
+import { discoverWalkthroughs, loadWalkthrough, upgradeWalkthroughFiles } from "./walkthrough/loader";
+import { applyResolvedLines, checkStaleness, StaleCheckResult } from "./walkthrough/staleness";
+import { PlaybackEngine, PlaybackStatus, SpeedMultiplier, SPEED_OPTIONS } from "./player/engine";
+import {
+  navigateToStep,
+  clearAllHighlights,
+  revealSymbol,
+  getStepDocumentUri,
+  resetHighlightStyle,
+} from "./player/highlight";
+import { FocusSession } from "./player/focus";
 import { WalkthroughPanel } from "./ui/panel";
 import { WalkthroughTreeProvider } from "./ui/tree";
-import { Recorder } from "./recorder/recorder";
+import { WalkthroughVisualEditorProvider } from "./ui/visual-editor";
+import { Recorder, RecordingMode } from "./recorder/recorder";
+import { DebugStopWatcher } from "./recorder/debug";
+import { WalkthroughEditor } from "./recorder/editor";
 import { StatusBarController } from "./ui/statusbar";
-import { WalkthroughFile } from "./walkthrough/types";
+import { Walkthrough, WalkthroughFile, formatAnchorLocation } from "./walkthrough/types";
 import { repairWalkthrough, saveRepairedWalkthrough } from "./git/repair";
 import { generateWalkthrough } from "./ai/generate";
 import { exportToMarkdown } from "./export/markdown";
 import { exportToHtml } from "./export/html";
+import { exportToCodeTour } from "./export/codetour";
+import { WalkthroughDiagnostics } from "./walkthrough/diagnostics";
+import { importCodeTours } from "./import/codetour";
+import { CURRENT_SCHEMA_VERSION } from "./walkthrough/migrate";
+import { ProgressStore } from "./player/progress";
+import { findNextInPath, findPendingPrerequisites, getWalkthroughId } from "./walkthrough/paths";
+import { SubtitleLink } from "./walkthrough/subtitle";
+import { getDiagramMediaRoot } from "./ui/diagrams";
+import {
+  InlineSubtitles,
+  OPEN_LINK_COMMAND,
+  SubtitlePresentation,
+  getSubtitlePresentation,
+} from "./ui/inline";
+import { StepIndex } from "./walkthrough/step-index";
+import { WalkthroughCodeLensProvider, WalkthroughHoverProvider } from "./ui/codelens";
+import { CoverageDecorations } from "./ui/coverage";
+import { computeCoverage, formatCoverageReport } from "./walkthrough/coverage";
+import { API_VERSION, CodeWalkthroughApi, RecordingStatus, WalkthroughExporter } from "./api";
+import { DeepLinkContext, buildDeepLink, findWalkthrough, parseDeepLink } from "./walkthrough/deeplink";
+import { COMMIT_SCHEME, CommitContentProvider } from "./git/commit-content";
+import { getHomeFolder, watchStepPaths } from "./walkthrough/workspace";
 
 let engine: PlaybackEngine;
 let panel: WalkthroughPanel;
+let inlineSubtitles: InlineSubtitles;
 let treeProvider: WalkthroughTreeProvider;
 let recorder: Recorder;
+let walkthroughEditor: WalkthroughEditor;
 let statusBar: StatusBarController;
+let diagnostics: WalkthroughDiagnostics;
+let progress: ProgressStore;
+let stepIndex: StepIndex;
+let focusSession: FocusSession;
+let diagramMediaRoot: vscode.Uri;
+let extensionId: string;
 let currentStaleResults: StaleCheckResult[] | undefined;
 let currentWalkthroughFile: WalkthroughFile | undefined;
+// Set while playing against the walkthrough's commitSha instead of the working tree
+let playbackCommit: string | undefined;
+let progressSession: { id: string; since: number } | undefined;
 
-export function activate(context: vscode.ExtensionContext): void {
+// Longer gaps between playback events are treated as a window left open, not time spent reading
+const MAX_PROGRESS_GAP_MS = 5 * 60 * 1000;
+
+export function activate(context: vscode.ExtensionContext): CodeWalkthroughApi {
   engine = new PlaybackEngine();
   panel = new WalkthroughPanel(context.extensionUri);
-  treeProvider = new WalkthroughTreeProvider();
-  recorder = new Recorder();
+  inlineSubtitles = new InlineSubtitles();
+  progress = new ProgressStore(context.workspaceState);
+  diagramMediaRoot = getDiagramMediaRoot(context.extensionUri);
+  extensionId = context.extension.id;
+  treeProvider = new WalkthroughTreeProvider(progress);
+  recorder = new Recorder(context.workspaceState);
+  walkthroughEditor = new WalkthroughEditor();
   statusBar = new StatusBarController();
+  diagnostics = new WalkthroughDiagnostics();
+  stepIndex = new StepIndex();
+  focusSession = new FocusSession();
+  const codeLensProvider = new WalkthroughCodeLensProvider(stepIndex);
+  const coverage = new CoverageDecorations(stepIndex);
 
   const treeView = vscode.window.createTreeView("codeWalkthrough.explorer", {
     treeDataProvider: treeProvider,
+    dragAndDropController: treeProvider,
     showCollapseAll: true,
   });
 
   const walkthroughWatcher = vscode.workspace.createFileSystemWatcher(
-    "**/.walkthrough/*.json"
+    "**/.walkthrough/*.{json,md}"
+  );
+  walkthroughWatcher.onDidChange((uri) => {
+    refreshWalkthroughs();
+    diagnostics.validateUri(uri);
+  });
+  walkthroughWatcher.onDidCreate((uri) => {
+    refreshWalkthroughs();
+    diagnostics.validateUri(uri);
+  });
+  walkthroughWatcher.onDidDelete((uri) => {
+    refreshWalkthroughs();
+    diagnostics.delete(uri);
+  });
+
+  const tourWatcher = vscode.workspace.createFileSystemWatcher(
+    "**/{.tours,.vscode/tours}/*.tour"
   );
-  walkthroughWatcher.onDidChange(() => treeProvider.refresh());
-  walkthroughWatcher.onDidCreate(() => treeProvider.refresh());
-  walkthroughWatcher.onDidDelete(() => treeProvider.refresh());
+  tourWatcher.onDidChange(() => refreshWalkthroughs());
+  tourWatcher.onDidCreate(() => refreshWalkthroughs());
+  tourWatcher.onDidDelete(() => refreshWalkthroughs());
+
+  const pathWatcher = vscode.workspace.createFileSystemWatcher(
+    "**/.walkthrough/paths/*.json"
+  );
+  pathWatcher.onDidChange(() => treeProvider.refresh());
+  pathWatcher.onDidCreate(() => treeProvider.refresh());
+  pathWatcher.onDidDelete(() => treeProvider.refresh());
+
+  progress.onChange(() => treeProvider.redraw());
+
+  void diagnostics.validateAll();
+  treeProvider.ensureLoaded().then(() => stepIndex.update(treeProvider.files));
 
   engine.onChange((status) => {
-    panel.update(status, currentStaleResults);
+    showSubtitles(status);
+    trackProgress(status);
 
     const isActive = status.state !== "idle";
     vscode.commands.executeCommand("setContext", "codeWalkthrough.active", isActive);
 
-    if (status.currentStep && isActive) {
-      const staleResult = currentStaleResults?.find(
-        (r) => r.stepIndex === status.currentIndex
-      );
-      if (staleResult?.status === "git-resolved" && staleResult.resolvedLines) {
-        navigateToStep({
-          ...status.currentStep,
-          lines: staleResult.resolvedLines,
-        });
-      } else if (staleResult?.status === "drifted" && staleResult.resolvedLines) {
-        navigateToStep({
-          ...status.currentStep,
-          lines: staleResult.resolvedLines,
-        });
-      } else {
-        navigateToStep(status.currentStep);
-      }
+    if (isActive) {
+      focusSession.start().then(() => revealStep(status));
     }
 
     if (isActive) {
@@ -70,20 +141,52 @@ export function activate(context: vscode.ExtensionContext): void {
         status.state as "playing" | "paused",
         status.currentIndex,
         status.totalSteps,
-        status.speed
+        status.speed,
+        getSubtitlePresentation()
       );
     }
 
     if (status.state === "idle") {
       clearAllHighlights();
+      focusSession.end();
+      inlineSubtitles.clear();
       statusBar.hideAll();
     }
   });
 
+  engine.onFinish(() => {
+    if (currentWalkthroughFile) {
+      onWalkthroughFinished(currentWalkthroughFile);
+    }
+  });
+
+  const debugStops = new DebugStopWatcher();
+  debugStops.onDidStop((stop) => recorder.captureDebugStop(stop));
+
   recorder.onChange(() => {
     if (recorder.isRecording) {
-      panel.updateRecording(recorder.stepCount);
+      panel.updateRecording(recorder.stepCount, recorder.pendingAnchorCount, recorder.recordingMode);
       statusBar.showRecording(recorder.stepCount);
+    } else if (recorder.isReviewing) {
+      panel.updateReview(recorder.capturedSteps);
+    }
+  });
+
+  walkthroughEditor.onChange(() => {
+    const file = walkthroughEditor.editedFile;
+    const draft = walkthroughEditor.walkthrough;
+    vscode.commands.executeCommand("setContext", "codeWalkthrough.editing", file !== null);
+    if (file && draft) {
+      treeProvider.setDraft(file.uri, draft, walkthroughEditor.isDirty);
+      statusBar.showEditing(draft.title, walkthroughEditor.isDirty);
+    } else {
+      statusBar.hideEditing();
+    }
+  });
+
+  treeProvider.onDidMoveStep((move) => {
+    if (walkthroughEditor.editedFile?.uri === move.uri) {
+      walkthroughEditor.moveStep(move.from, move.to);
     }
   });
 
@@ -101,6 +204,15 @@ export function activate(context: vscode.ExtensionContext): void {
       if (!isNaN(index)) {
         engine.goTo(index);
       }
+    } else if (command.startsWith("playChapter:")) {
+      const chapterIndex = parseInt(command.split(":")[1], 10);
+      if (!isNaN(chapterIndex)) {
+        engine.playChapter(chapterIndex);
+      }
+    } else if (command.startsWith("openLink:")) {
+      openSubtitleLink(JSON.parse(command.slice("openLink:".length)) as SubtitleLink);
+    } else if (command === "clearChapter") {
+      engine.clearChapter();
     } else if (command.startsWith("setSpeed:")) {
       const speed = parseFloat(command.split(":")[1]);
       if (SPEED_OPTIONS.includes(speed as SpeedMultiplier)) {
@@ -108,6 +220,8 @@ export function activate(context: vscode.ExtensionContext): void {
       }
     } else if (command === "recordStep") {
       recorder.captureStep();
+    } else if (command === "recordAnchor") {
+      recorder.addAnchor();
     } else if (command === "recordUndo") {
       recorder.removeLastStep();
     } else if (command === "recordStop") {
@@ -119,6 +233,8 @@ export function activate(context: vscode.ExtensionContext): void {
       vscode.commands.executeCommand("setContext", "codeWalkthrough.recording", false);
     } else if (command === "repair") {
       repairCurrentWalkthrough();
+    } else if (command.startsWith("review")) {
+      handleReviewCommand(command);
     }
   });
 
@@ -128,8 +244,12 @@ export function activate(context: vscode.ExtensionContext): void {
     vscode.commands.registerCommand("codeWalkthrough.prevStep", () => engine.prev()),
     vscode.commands.registerCommand("codeWalkthrough.togglePlayback", () => engine.togglePlayback()),
     vscode.commands.registerCommand("codeWalkthrough.stop", stopWalkthrough),
-    vscode.commands.registerCommand("codeWalkthrough.recordStart", startRecording),
+    vscode.commands.registerCommand("codeWalkthrough.recordStart", () => startRecording()),
+    vscode.commands.registerCommand("codeWalkthrough.recordStartAuto", () => startRecording("auto")),
+    vscode.commands.registerCommand("codeWalkthrough.recordStartDebug", () => startRecording("debug")),
+    vscode.commands.registerCommand("codeWalkthrough.recordResume", resumeRecording),
     vscode.commands.registerCommand("codeWalkthrough.recordStep", () => recorder.captureStep()),
+    vscode.commands.registerCommand("codeWalkthrough.recordAnchor", () => recorder.addAnchor()),
     vscode.commands.registerCommand("codeWalkthrough.recordUndo", () => recorder.removeLastStep()),
     vscode.commands.registerCommand("codeWalkthrough.recordStop", finishRecording),
     vscode.commands.registerCommand("codeWalkthrough.recordCancel", () => {
@@ -139,32 +259,150 @@ export function activate(context: vscode.ExtensionContext): void {
       vscode.commands.executeCommand("setContext", "codeWalkthrough.recording", false);
     }),
     vscode.commands.registerCommand("codeWalkthrough.cycleSpeed", () => engine.cycleSpeed()),
+    vscode.commands.registerCommand("codeWalkthrough.togglePresentation", togglePresentation),
+    vscode.commands.registerCommand("codeWalkthrough.toggleFocusMode", toggleFocusMode),
+    vscode.commands.registerCommand(OPEN_LINK_COMMAND, (link: SubtitleLink) => openSubtitleLink(link)),
     vscode.commands.registerCommand("codeWalkthrough.repair", repairCurrentWalkthrough),
-    vscode.commands.registerCommand("codeWalkthrough.refreshTree", () => treeProvider.refresh()),
+    vscode.commands.registerCommand("codeWalkthrough.refreshTree", refreshWalkthroughs),
     vscode.commands.registerCommand("codeWalkthrough.playFile", (file: WalkthroughFile) => beginPlayback(file)),
-    vscode.commands.registerCommand("codeWalkthrough.playFileAtStep", (file: WalkthroughFile, stepIndex: number) => {
-      beginPlayback(file).then(() => engine.goTo(stepIndex));
+    vscode.commands.registerCommand("codeWalkthrough.playFileAtStep", playFileAtStep),
+    vscode.commands.registerCommand("codeWalkthrough.playAtCommit", playAtOriginalCommit),
+    vscode.commands.registerCommand("codeWalkthrough.playChapter", (file: WalkthroughFile, chapterIndex: number) => {
+      beginPlayback(file, false).then((started) => {
+        if (started) {
+          engine.playChapter(chapterIndex);
+        }
+      });
     }),
+    vscode.commands.registerCommand("codeWalkthrough.openVisualEditor", openVisualEditor),
+    vscode.commands.registerCommand("codeWalkthrough.edit", editWalkthrough),
+    vscode.commands.registerCommand("codeWalkthrough.editInsertStep", insertEditedStep),
+    vscode.commands.registerCommand("codeWalkthrough.editRetargetStep", retargetEditedStep),
+    vscode.commands.registerCommand("codeWalkthrough.editSubtitle", editStepSubtitle),
+    vscode.commands.registerCommand("codeWalkthrough.editDeleteStep", deleteEditedStep),
+    vscode.commands.registerCommand("codeWalkthrough.editSave", saveEditedWalkthrough),
+    vscode.commands.registerCommand("codeWalkthrough.editFinish", finishEditing),
     vscode.commands.registerCommand("codeWalkthrough.generate", generateFromPicker),
     vscode.commands.registerCommand("codeWalkthrough.generateFromFolder", (uri: vscode.Uri) => {
       runGeneration(uri);
     }),
     vscode.commands.registerCommand("codeWalkthrough.setupAI", setupAIProvider),
+    vscode.commands.registerCommand("codeWalkthrough.importCodeTour", importTours),
+    vscode.commands.registerCommand("codeWalkthrough.upgradeFiles", upgradeFiles),
+    vscode.commands.registerCommand("codeWalkthrough.toggleCoverage", () => coverage.toggle()),
+    vscode.commands.registerCommand("codeWalkthrough.coverageReport", showCoverageReport),
+    vscode.commands.registerCommand("codeWalkthrough.copyLink", copyDeepLink),
     vscode.commands.registerCommand("codeWalkthrough.export", exportWalkthrough),
     vscode.commands.registerCommand("codeWalkthrough.exportFile", (file: WalkthroughFile) => {
       exportWalkthroughFile(file);
     })
   );
 
+  context.subscriptions.push(
+    vscode.workspace.onDidOpenTextDocument((doc) => diagnostics.schedule(doc)),
+    vscode.workspace.onDidChangeTextDocument((e) => diagnostics.schedule(e.document)),
+    vscode.languages.registerCodeLensProvider({ scheme: "file" }, codeLensProvider),
+    vscode.languages.registerHoverProvider({ scheme: "file" }, new WalkthroughHoverProvider(stepIndex)),
+    vscode.window.registerFileDecorationProvider(coverage),
+    vscode.window.registerUriHandler({ handleUri: handleDeepLink }),
+    vscode.debug.registerDebugAdapterTrackerFactory("*", debugStops),
+    vscode.workspace.registerTextDocumentContentProvider(COMMIT_SCHEME, new CommitContentProvider()),
+    vscode.window.registerCustomEditorProvider(
+      WalkthroughVisualEditorProvider.viewType,
+      new WalkthroughVisualEditorProvider(),
+      { webviewOptions: { retainContextWhenHidden: true } }
+    ),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("codeWalkthrough.subtitles.presentation")) {
+        applyPresentation();
+      }
+      if (
+        e.affectsConfiguration("codeWalkthrough.focus") ||
+        e.affectsConfiguration("codeWalkthrough.highlight")
+      ) {
+        applyFocusSettings();
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      refreshWalkthroughs();
+      void diagnostics.validateAll();
+    })
+  );
+
   context.subscriptions.push(
     treeView,
     walkthroughWatcher,
+    tourWatcher,
+    pathWatcher,
+    watchStepPaths(),
     { dispose: () => engine.dispose() },
     { dispose: () => panel.hide() },
+    { dispose: () => inlineSubtitles.dispose() },
     { dispose: () => treeProvider.dispose() },
     { dispose: () => recorder.dispose() },
-    { dispose: () => statusBar.dispose() }
+    debugStops,
+    { dispose: () => walkthroughEditor.dispose() },
+    { dispose: () => statusBar.dispose() },
+    { dispose: () => diagnostics.dispose() },
+    { dispose: () => progress.dispose() },
+    codeLensProvider,
+    coverage,
+    stepIndex
   );
+
+  offerRecordingResume();
+
+  return createApi();
+}
+
+function createApi(): CodeWalkthroughApi {
+  const recordingStatus = (): RecordingStatus => ({
+    recording: recorder.isRecording,
+    stepCount: recorder.stepCount,
+    pendingAnchors: recorder.pendingAnchorCount,
+  });
+
+  return {
+    version: API_VERSION,
+    listWalkthroughs: discoverWalkthroughs,
+    play: async (target, stepIndex) => {
+      if (target instanceof vscode.Uri) {
+        const walkthrough = await loadWalkthrough(target.fsPath);
+        if (!walkthrough) {
+          return;
+        }
+        await playFileAtStep({ uri: target.fsPath, walkthrough }, stepIndex ?? 0);
+      } else if ("walkthrough" in target) {
+        await playFileAtStep(target, stepIndex ?? 0);
+      } else {
+        await playWalkthrough(target, stepIndex ?? 0);
+      }
+    },
+    goTo: (index) => engine.goTo(index),
+    stop: stopWalkthrough,
+    getStatus: () => engine.getStatus(),
+    onDidChangePlayback: engine.onChange,
+    onDidFinishWalkthrough: engine.onFinish,
+    onDidChangeRecording: (listener, thisArgs, disposables) =>
+      recorder.onChange(() => listener.call(thisArgs, recordingStatus()), undefined, disposables),
+    onDidSaveRecording: recorder.onSave,
+    registerExporter: (exporter: WalkthroughExporter) => {
+      const format: ExportFormat = {
+        label: exporter.label,
+        description: exporter.description,
+        ext: exporter.ext,
+        filterName: exporter.filterName ?? exporter.label,
+        openInEditor: exporter.openInEditor ?? false,
+        defaultFolder: exporter.defaultFolder,
+        // async so an exporter that throws synchronously still rejects
+        render: async (walkthrough, links) => exporter.render(walkthrough, links),
+      };
+      registeredExportFormats.push(format);
+      return new vscode.Disposable(() => {
+        registeredExportFormats = registeredExportFormats.filter((f) => f !== format);
+      });
+    },
+  };
 }
 
 async function openWalkthrough(): Promise<void> {
@@ -172,7 +410,7 @@ async function openWalkthrough(): Promise<void> {
 
   if (files.length === 0) {
     vscode.window.showInformationMessage(
-      "No walkthroughs found. Create a .walkthrough/*.json file or use 'Walkthrough: Start Recording'."
+      "No walkthroughs found. Create a .walkthrough/*.json or *.md file or use 'Walkthrough: Start Recording'."
     );
     return;
   }
@@ -197,58 +435,436 @@ async function openWalkthrough(): Promise<void> {
   }
 }
 
-async function beginPlayback(file: WalkthroughFile): Promise<void> {
+// True once `file` itself is playing; false if the user cancelled or started a prerequisite instead
+async function beginPlayback(
+  file: WalkthroughFile,
+  offerResume = true,
+  atOriginalCommit = false
+): Promise<boolean> {
   const walkthrough = file.walkthrough;
+
+  await treeProvider.ensureLoaded();
+  const pending = findPendingPrerequisites(
+    treeProvider.paths,
+    getWalkthroughId(file.uri),
+    (id) => progress.isCompleted(id)
+  );
+  const firstPending = pending
+    .map((id) => treeProvider.files.find((f) => getWalkthroughId(f.uri) === id))
+    .find((f) => f !== undefined);
+  if (firstPending) {
+    const choice = await vscode.window.showInformationMessage(
+      `"${walkthrough.title}" builds on ${pending.join(", ")}, which you haven't finished yet.`,
+      `Start with "${firstPending.walkthrough.title}"`,
+      "Play Anyway"
+    );
+    if (!choice) {
+      return false;
+    }
+    if (choice !== "Play Anyway") {
+      await beginPlayback(firstPending);
+      return false;
+    }
+  }
+
+  if (atOriginalCommit && !walkthrough.commitSha) {
+    vscode.window.showWarningMessage(
+      `"${walkthrough.title}" has no commitSha, so it can't be played at its original commit.`
+    );
+    return false;
+  }
+
   currentWalkthroughFile = file;
-  currentStaleResults = await checkStaleness(
-    walkthrough.steps,
-    walkthrough.commitSha
+  playbackCommit = undefined;
+  currentStaleResults = undefined;
+
+  if (atOriginalCommit) {
+    // Files come from the commit itself, so every step lines up by construction
+    playbackCommit = walkthrough.commitSha;
+  } else {
+    currentStaleResults = await checkStaleness(
+      walkthrough.steps,
+      walkthrough.commitSha,
+      getHomeFolder(file.uri)
+    );
+
+    const needsRepair = currentStaleResults.filter(
+      (r) => r.status !== "fresh" && r.status !== "git-resolved"
+    ).length;
+    const gitResolved = currentStaleResults.filter(
+      (r) => r.status === "git-resolved"
+    ).length;
+
+    if (needsRepair > 0) {
+      const hasGitSha = !!walkthrough.commitSha;
+      const choice = await vscode.window.showWarningMessage(
+        `${needsRepair} step(s) may be outdated.${gitResolved > 0 ? ` ${gitResolved} auto-resolved via git.` : ""}`,
+        "Continue Anyway",
+        ...(hasGitSha ? ["Auto-Repair", "Play at Original Commit"] : []),
+        "Cancel"
+      );
+      if (choice === "Cancel" || !choice) {
+        return false;
+      }
+      if (choice === "Auto-Repair") {
+        return repairCurrentWalkthroughAndReload(file);
+      }
+      if (choice === "Play at Original Commit") {
+        playbackCommit = walkthrough.commitSha;
+        currentStaleResults = undefined;
+      }
+    } else if (gitResolved > 0) {
+      vscode.window.showInformationMessage(
+        `${gitResolved} step(s) auto-resolved via git diff. Consider running 'Walkthrough: Repair' to update the file.`
+      );
+    }
+  }
+
+  let startIndex = 0;
+  const saved = progress.get(getWalkthroughId(file.uri));
+  if (offerResume && saved?.lastStep && !saved.completed && saved.lastStep < walkthrough.steps.length) {
+    const resume = `Resume at Step ${saved.lastStep + 1}`;
+    const choice = await vscode.window.showInformationMessage(
+      `You stopped "${walkthrough.title}" at step ${saved.lastStep + 1} of ${walkthrough.steps.length}.`,
+      resume,
+      "Start Over"
+    );
+    if (!choice) {
+      return false;
+    }
+    if (choice === resume) {
+      startIndex = saved.lastStep;
+    }
+  }
+
+  showPlaybackView();
+  engine.load(walkthrough, startIndex);
+  return true;
+}
+
+// Hover links can only carry JSON, so they pass the walkthrough's path instead of the file
+async function playFileAtStep(file: WalkthroughFile | string, index: number): Promise<void> {
+  if (typeof file === "string") {
+    await treeProvider.ensureLoaded();
+    const found = treeProvider.files.find((f) => f.uri === file);
+    if (!found) {
+      vscode.window.showWarningMessage(`Walkthrough not found: ${file}`);
+      return;
+    }
+    file = found;
+  }
+  if (await beginPlayback(file, false)) {
+    engine.goTo(index);
+  }
+}
+
+// For walkthroughs handed over through the API that have no file: no prerequisites, resume or progress
+async function playWalkthrough(walkthrough: Walkthrough, startIndex: number): Promise<void> {
+  currentWalkthroughFile = undefined;
+  playbackCommit = undefined;
+  currentStaleResults = await checkStaleness(walkthrough.steps, walkthrough.commitSha);
+  showPlaybackView();
+  engine.load(walkthrough, startIndex);
+}
+
+// The workspace folder step paths of the playing walkthrough resolve against
+function getPlaybackHome(): vscode.WorkspaceFolder | undefined {
+  return getHomeFolder(currentWalkthroughFile?.uri);
+}
+
+function refreshWalkthroughs(): void {
+  treeProvider.refresh().then(() => stepIndex.update(treeProvider.files));
+}
+
+function showPlaybackView(): void {
+  if (getSubtitlePresentation() === "panel") {
+    panel.show();
+  }
+}
+
+function showSubtitles(status: PlaybackStatus): void {
+  if (getSubtitlePresentation() === "panel") {
+    panel.update(status, currentStaleResults, playbackCommit);
+    return;
+  }
+  if (status.currentStep && status.state !== "idle") {
+    const staleResult = currentStaleResults?.find(
+      (r) => r.stepIndex === status.currentIndex
+    );
+    const uri = getStepDocumentUri(status.currentStep.file, getPlaybackHome(), playbackCommit);
+    if (uri) {
+      inlineSubtitles.update(status, applyResolvedLines(status.currentStep, staleResult), uri, staleResult);
+    }
+  }
+}
+
+function revealStep(status: PlaybackStatus): void {
+  if (!status.currentStep || status.state === "idle") {
+    return;
+  }
+  const staleResult = currentStaleResults?.find(
+    (r) => r.stepIndex === status.currentIndex
   );
+  navigateToStep(
+    applyResolvedLines(status.currentStep, staleResult),
+    panel.viewColumn,
+    playbackCommit,
+    getPlaybackHome()
+  );
+}
+
+async function toggleFocusMode(): Promise<void> {
+  const config = vscode.workspace.getConfiguration("codeWalkthrough.focus");
+  await config.update("enabled", !config.get<boolean>("enabled", false), vscode.ConfigurationTarget.Global);
+}
+
+// Restyles the step on screen and restarts Zen mode and font zoom with the new settings
+async function applyFocusSettings(): Promise<void> {
+  resetHighlightStyle();
+  const status = engine.getStatus();
+  if (status.state === "idle" || recorder.isRecording) {
+    return;
+  }
+  await focusSession.end();
+  await focusSession.start();
+  revealStep(status);
+}
 
-  const needsRepair = currentStaleResults.filter(
-    (r) => r.status !== "fresh" && r.status !== "git-resolved"
-  ).length;
-  const gitResolved = currentStaleResults.filter(
-    (r) => r.status === "git-resolved"
-  ).length;
+async function togglePresentation(): Promise<void> {
+  const next: SubtitlePresentation = getSubtitlePresentation() === "panel" ? "inline" : "panel";
+  await vscode.workspace
+    .getConfiguration("codeWalkthrough.subtitles")
+    .update("presentation", next, vscode.ConfigurationTarget.Global);
+}
+
+// Moves a running walkthrough between the panel and the editor without restarting it
+function applyPresentation(): void {
+  const status = engine.getStatus();
+  if (status.state === "idle" || recorder.isRecording) {
+    return;
+  }
+  if (getSubtitlePresentation() === "inline") {
+    panel.hide();
+  } else {
+    inlineSubtitles.clear();
+    panel.show();
+  }
+  showSubtitles(status);
+  statusBar.showPlayback(status.state, status.currentIndex, status.totalSteps, status.speed, getSubtitlePresentation());
+}
+
+// From the sidebar for a walkthrough; from the palette, restarts the one playing at its current step
+async function playAtOriginalCommit(item?: { file: WalkthroughFile }): Promise<void> {
+  if (item) {
+    await beginPlayback(item.file, true, true);
+    return;
+  }
+
+  if (currentWalkthroughFile) {
+    const stepIndex = engine.getStatus().currentIndex;
+    if (await beginPlayback(currentWalkthroughFile, false, true)) {
+      engine.goTo(stepIndex);
+    }
+    return;
+  }
+
+  await treeProvider.ensureLoaded();
+  const pinned = treeProvider.files.filter((f) => f.walkthrough.commitSha);
+  if (pinned.length === 0) {
+    vscode.window.showInformationMessage("No walkthroughs record the commit they were written against.");
+    return;
+  }
+  const pick = await vscode.window.showQuickPick(
+    pinned.map((f) => ({
+      label: f.walkthrough.title,
+      description: f.walkthrough.commitSha?.slice(0, 7),
+      file: f,
+    })),
+    { placeHolder: "Select a walkthrough to play at its original commit" }
+  );
+  if (pick) {
+    await beginPlayback(pick.file, true, true);
+  }
+}
+
+async function openSubtitleLink(link: SubtitleLink): Promise<void> {
+  if (link.kind === "external") {
+    await vscode.env.openExternal(vscode.Uri.parse(link.url));
+  } else if (link.kind === "code") {
+    await navigateToStep(
+      { file: link.file, lines: link.lines ?? [1, 1], subtitle: "" },
+      panel.viewColumn,
+      playbackCommit,
+      getPlaybackHome()
+    );
+  } else if (link.kind === "symbol") {
+    if (!(await revealSymbol(link.name, panel.viewColumn))) {
+      vscode.window.showWarningMessage(`Symbol not found: ${link.name}`);
+    }
+  } else if (link.kind === "step") {
+    engine.goTo(link.step - 1);
+  } else {
+    await playWalkthroughByName(link.id, link.step, getPlaybackHome());
+  }
+}
+
+// `name` is a walkthrough id or title; `step` is 1-based
+async function playWalkthroughByName(name: string, step?: number, home?: vscode.WorkspaceFolder): Promise<void> {
+  await treeProvider.ensureLoaded();
+  const file = findWalkthrough(treeProvider.files, name, home);
+  if (!file) {
+    vscode.window.showWarningMessage(`Walkthrough not found: ${name}`);
+    return;
+  }
+  if ((await beginPlayback(file, step === undefined)) && step !== undefined) {
+    engine.goTo(step - 1);
+  }
+}
+
+async function handleDeepLink(uri: vscode.Uri): Promise<void> {
+  const target = parseDeepLink(uri);
+  if (!target) {
+    vscode.window.showWarningMessage(`Unsupported walkthrough link: ${uri.toString(true)}`);
+    return;
+  }
+  await playWalkthroughByName(target.walkthrough, target.step);
+}
+
+// From the sidebar for a walkthrough or step; from the palette for the step that's playing
+async function copyDeepLink(item?: { file: WalkthroughFile; stepIndex?: number }): Promise<void> {
+  const file = item?.file ?? currentWalkthroughFile;
+  if (!file) {
+    vscode.window.showWarningMessage("Select a walkthrough in the sidebar or start one to copy its link.");
+    return;
+  }
+  const stepIndex = item ? item.stepIndex : engine.getStatus().currentIndex;
+  const link = buildDeepLink(
+    extensionId,
+    getWalkthroughId(file.uri),
+    stepIndex !== undefined ? stepIndex + 1 : undefined
+  );
+  await vscode.env.clipboard.writeText(link);
+  vscode.window.showInformationMessage(`Copied link to "${file.walkthrough.title}"${stepIndex !== undefined ? `, step ${stepIndex + 1}` : ""}.`);
+}
+
+function trackProgress(status: PlaybackStatus): void {
+  const now = Date.now();
+  if (progressSession) {
+    progress.addTime(
+      progressSession.id,
+      Math.min(now - progressSession.since, MAX_PROGRESS_GAP_MS) / 1000
+    );
+  }
+
+  if (status.state === "idle" || !currentWalkthroughFile) {
+    progressSession = undefined;
+    return;
+  }
+
+  const id = getWalkthroughId(currentWalkthroughFile.uri);
+  progressSession = { id, since: now };
+  progress.recordVisit(id, status.currentIndex);
+}
+
+async function onWalkthroughFinished(file: WalkthroughFile): Promise<void> {
+  const id = getWalkthroughId(file.uri);
+  await progress.markCompleted(id);
+
+  const next = findNextInPath(treeProvider.paths, id, treeProvider.files);
+  if (!next) {
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Finished "${file.walkthrough.title}". Next in ${next.learningPath.title}: "${next.file.walkthrough.title}".`,
+    "Continue to Next in Path"
+  );
+  if (choice === "Continue to Next in Path") {
+    await beginPlayback(next.file);
+  }
+}
 
-  if (needsRepair > 0) {
-    const hasGitSha = !!walkthrough.commitSha;
-    const repairOption = hasGitSha ? "Auto-Repair" : undefined;
+async function startRecording(mode: RecordingMode = "manual"): Promise<void> {
+  const draft = recorder.unfinishedDraft;
+  if (draft) {
     const choice = await vscode.window.showWarningMessage(
-      `${needsRepair} step(s) may be outdated.${gitResolved > 0 ? ` ${gitResolved} auto-resolved via git.` : ""}`,
-      "Continue Anyway",
-      ...(repairOption ? [repairOption] : []),
-      "Cancel"
+      `There is an unfinished recording, "${draft.title}" (${draft.steps.length} step${draft.steps.length !== 1 ? "s" : ""}).`,
+      { modal: true },
+      "Resume",
+      "Discard and Start New"
     );
-    if (choice === "Cancel" || !choice) {
+    if (choice === "Resume") {
+      await resumeRecording();
       return;
     }
-    if (choice === "Auto-Repair") {
-      await repairCurrentWalkthroughAndReload(file);
+    if (choice === undefined) {
       return;
     }
-  } else if (gitResolved > 0) {
-    vscode.window.showInformationMessage(
-      `${gitResolved} step(s) auto-resolved via git diff. Consider running 'Walkthrough: Repair' to update the file.`
-    );
   }
 
+  const started = await recorder.start(mode);
+  if (started) {
+    showRecordingView();
+  }
+}
+
+async function resumeRecording(): Promise<void> {
+  if (recorder.isRecording) {
+    return;
+  }
+  if (!recorder.resume()) {
+    vscode.window.showInformationMessage("There is no unfinished recording to resume.");
+    return;
+  }
+  showRecordingView();
+}
+
+function showRecordingView(): void {
+  vscode.commands.executeCommand("setContext", "codeWalkthrough.recording", true);
   panel.show();
-  engine.load(walkthrough);
+  panel.updateRecording(recorder.stepCount, recorder.pendingAnchorCount, recorder.recordingMode);
+  statusBar.showRecording(recorder.stepCount);
 }
 
-async function startRecording(): Promise<void> {
-  const started = await recorder.start();
-  if (started) {
-    vscode.commands.executeCommand("setContext", "codeWalkthrough.recording", true);
-    panel.show();
-    panel.updateRecording(0);
-    statusBar.showRecording(0);
+// A draft left in workspace state means the window went away mid-recording
+async function offerRecordingResume(): Promise<void> {
+  const draft = recorder.unfinishedDraft;
+  if (!draft) {
+    return;
+  }
+  const choice = await vscode.window.showInformationMessage(
+    `Resume unfinished recording "${draft.title}" (${draft.steps.length} step${draft.steps.length !== 1 ? "s" : ""})?`,
+    "Resume",
+    "Discard"
+  );
+  if (choice === "Resume") {
+    await resumeRecording();
+  } else if (choice === "Discard") {
+    recorder.discardDraft();
   }
 }
 
 async function finishRecording(): Promise<void> {
+  // Auto-captured and debugger steps are reviewed in the panel first; saving from there comes back here
+  if (recorder.isRecording && recorder.recordingMode !== "manual" && recorder.stepCount > 0) {
+    recorder.beginReview();
+    statusBar.hideAll();
+    return;
+  }
+
+  // Captured steps start without a subtitle, so don't let a click save a walkthrough of blanks
+  const unwritten = recorder.unwrittenStepCount;
+  if (unwritten > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `${unwritten} of ${recorder.stepCount} captured step${recorder.stepCount !== 1 ? "s" : ""} ${unwritten !== 1 ? "haven't" : "hasn't"} been explained yet. Save anyway?`,
+      { modal: true },
+      "Save Anyway"
+    );
+    if (choice !== "Save Anyway") {
+      return;
+    }
+  }
+
   const uri = await recorder.stop();
   vscode.commands.executeCommand("setContext", "codeWalkthrough.recording", false);
   statusBar.hideAll();
@@ -257,12 +873,12 @@ async function finishRecording(): Promise<void> {
     const open = await vscode.window.showInformationMessage(
       "Walkthrough saved! Open it now?",
       "Play",
-      "View JSON"
+      "View File"
     );
 
     if (open === "Play") {
       await openWalkthrough();
-    } else if (open === "View JSON") {
+    } else if (open === "View File") {
       const doc = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(doc);
     } else {
@@ -273,6 +889,231 @@ async function finishRecording(): Promise<void> {
   }
 }
 
+// From the sidebar or an editor's title bar for that file; from the palette through a picker
+async function openVisualEditor(target?: { file: WalkthroughFile } | vscode.Uri): Promise<void> {
+  let uri = target instanceof vscode.Uri ? target : target ? vscode.Uri.file(target.file.uri) : undefined;
+  if (!uri) {
+    await treeProvider.ensureLoaded();
+    const pick = await vscode.window.showQuickPick(
+      treeProvider.files
+        .filter((f) => !f.readOnly)
+        .map((f) => ({
+          label: f.walkthrough.title,
+          description: `${f.walkthrough.steps.length} steps`,
+          file: f,
+        })),
+      { placeHolder: "Select a walkthrough to open in the visual editor" }
+    );
+    if (!pick) {
+      return;
+    }
+    uri = vscode.Uri.file(pick.file.uri);
+  }
+  await vscode.commands.executeCommand("vscode.openWith", uri, WalkthroughVisualEditorProvider.viewType);
+}
+
+// From the sidebar for a walkthrough; from the palette through a picker
+async function editWalkthrough(item?: { file: WalkthroughFile }): Promise<void> {
+  let file = item?.file;
+  if (!file) {
+    await treeProvider.ensureLoaded();
+    const pick = await vscode.window.showQuickPick(
+      treeProvider.files.map((f) => ({
+        label: f.walkthrough.title,
+        description: `${f.walkthrough.steps.length} steps${f.readOnly ? " · CodeTour" : ""}`,
+        file: f,
+      })),
+      { placeHolder: "Select a walkthrough to edit" }
+    );
+    if (!pick) {
+      return;
+    }
+    file = pick.file;
+  }
+
+  if (file.readOnly) {
+    const action = await vscode.window.showWarningMessage(
+      `"${file.walkthrough.title}" is read from a CodeTour file and cannot be edited in place. Import it as a walkthrough first.`,
+      "Import"
+    );
+    if (action === "Import") {
+      await importTours();
+    }
+    return;
+  }
+
+  if (walkthroughEditor.editedFile?.uri === file.uri) {
+    return;
+  }
+  if (!(await closeEditSession())) {
+    return;
+  }
+  await walkthroughEditor.open(file);
+}
+
+// Ends the current edit session, offering to save unsaved changes. False if the user cancelled.
+async function closeEditSession(): Promise<boolean> {
+  const file = walkthroughEditor.editedFile;
+  if (!file) {
+    return true;
+  }
+
+  if (walkthroughEditor.isDirty) {
+    const choice = await vscode.window.showWarningMessage(
+      `Save your changes to "${walkthroughEditor.walkthrough?.title ?? file.walkthrough.title}"?`,
+      { modal: true },
+      "Save",
+      "Discard"
+    );
+    if (choice === undefined) {
+      return false;
+    }
+    if (choice === "Save" && !(await saveEditedWalkthrough())) {
+      return false;
+    }
+  }
+
+  treeProvider.setDraft(file.uri, undefined);
+  walkthroughEditor.close();
+  return true;
+}
+
+function requireEditedWalkthrough(): Walkthrough | null {
+  const draft = walkthroughEditor.walkthrough;
+  if (!draft) {
+    vscode.window.showWarningMessage("No walkthrough is being edited. Use 'Walkthrough: Edit Walkthrough' first.");
+  }
+  return draft;
+}
+
+function requireSelectionEditor(): vscode.TextEditor | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage("Select the code for the step in an editor first.");
+  }
+  return editor;
+}
+
+// Sidebar commands pass the step; from the palette the step is picked from the edited walkthrough
+async function pickEditedStep(
+  item: { stepIndex?: number } | undefined,
+  placeHolder: string
+): Promise<number | undefined> {
+  if (item?.stepIndex !== undefined) {
+    return item.stepIndex;
+  }
+  const draft = requireEditedWalkthrough();
+  if (!draft) {
+    return undefined;
+  }
+  const pick = await vscode.window.showQuickPick(
+    draft.steps.map((step, i) => ({
+      label: `${i + 1}. ${formatAnchorLocation(step)}`,
+      description: step.subtitle,
+      index: i,
+    })),
+    { placeHolder }
+  );
+  return pick?.index;
+}
+
+// After a step from its context menu, at the end from the walkthrough's, and anywhere from the palette
+async function insertEditedStep(item?: { file: WalkthroughFile; stepIndex?: number }): Promise<void> {
+  const draft = requireEditedWalkthrough();
+  const editor = draft && requireSelectionEditor();
+  if (!draft || !editor) {
+    return;
+  }
+
+  let after: number;
+  if (item?.stepIndex !== undefined) {
+    after = item.stepIndex;
+  } else if (item) {
+    after = draft.steps.length - 1;
+  } else {
+    const pick = await vscode.window.showQuickPick(
+      [
+        { label: "At the start", description: "", after: -1 },
+        ...draft.steps.map((step, i) => ({
+          label: `After ${i + 1}. ${formatAnchorLocation(step)}`,
+          description: step.subtitle,
+          after: i,
+        })),
+      ],
+      { placeHolder: "Where should the new step go?" }
+    );
+    if (!pick) {
+      return;
+    }
+    after = pick.after;
+  }
+
+  await walkthroughEditor.insertStep(after, editor);
+}
+
+async function retargetEditedStep(item?: { stepIndex?: number }): Promise<void> {
+  const editor = requireSelectionEditor();
+  if (!editor) {
+    return;
+  }
+  const index = await pickEditedStep(item, "Select the step to point at the current selection");
+  if (index !== undefined) {
+    await walkthroughEditor.retargetStep(index, editor);
+  }
+}
+
+async function editStepSubtitle(item?: { stepIndex?: number }): Promise<void> {
+  const index = await pickEditedStep(item, "Select the step whose subtitle to edit");
+  if (index !== undefined) {
+    await walkthroughEditor.editSubtitle(index);
+  }
+}
+
+async function deleteEditedStep(item?: { stepIndex?: number }): Promise<void> {
+  const index = await pickEditedStep(item, "Select the step to delete");
+  if (index !== undefined) {
+    walkthroughEditor.deleteStep(index);
+  }
+}
+
+async function saveEditedWalkthrough(): Promise<boolean> {
+  if (!requireEditedWalkthrough()) {
+    return false;
+  }
+  const uri = await walkthroughEditor.save();
+  if (uri) {
+    refreshWalkthroughs();
+  }
+  return uri !== null;
+}
+
+async function finishEditing(): Promise<void> {
+  await closeEditSession();
+}
+
+// Messages from the auto-capture review screen; step indices are 0-based
+function handleReviewCommand(command: string): void {
+  const separator = command.indexOf(":");
+  const name = separator >= 0 ? command.slice(0, separator) : command;
+  const arg = command.slice(separator + 1);
+  if (name === "reviewContinue") {
+    recorder.continueRecording();
+    statusBar.showRecording(recorder.stepCount);
+  } else if (name === "reviewSubtitle") {
+    const { index, subtitle } = JSON.parse(arg) as { index: number; subtitle: string };
+    recorder.setSubtitle(index, subtitle);
+  } else if (name === "reviewRemove") {
+    recorder.removeStep(parseInt(arg, 10));
+  } else if (name === "reviewMerge") {
+    recorder.mergeWithPrevious(parseInt(arg, 10));
+  } else if (name === "reviewReveal") {
+    const step = recorder.capturedSteps[parseInt(arg, 10)];
+    if (step) {
+      navigateToStep(step, panel.viewColumn, undefined, recorder.homeFolder);
+    }
+  }
+}
+
 async function generateFromPicker(): Promise<void> {
   const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders) {
@@ -379,9 +1220,21 @@ async function repairCurrentWalkthrough(): Promise<void> {
   await repairCurrentWalkthroughAndReload(currentWalkthroughFile);
 }
 
+// True if the repaired walkthrough was loaded for playback
 async function repairCurrentWalkthroughAndReload(
   file: WalkthroughFile
-): Promise<void> {
+): Promise<boolean> {
+  if (file.readOnly) {
+    const action = await vscode.window.showWarningMessage(
+      `"${file.walkthrough.title}" is read from a CodeTour file and cannot be repaired in place. Import it as a walkthrough first.`,
+      "Import"
+    );
+    if (action === "Import") {
+      await importTours();
+    }
+    return false;
+  }
+
   const result = await repairWalkthrough(file);
 
   if (!result.repaired && result.stepsUnresolvable > 0) {
@@ -392,20 +1245,93 @@ async function repairCurrentWalkthroughAndReload(
 
   if (result.stepsFixed > 0 || result.repaired) {
     await saveRepairedWalkthrough(file.uri, result.walkthrough);
+    const outside = result.stepsOutsideRepo > 0
+      ? ` ${result.stepsOutsideRepo} step(s) point into another repository and were left as they are.`
+      : "";
     vscode.window.showInformationMessage(
-      `Walkthrough repaired: ${result.stepsFixed} step(s) updated, commit SHA rebased to HEAD.`
+      `Walkthrough repaired: ${result.stepsFixed} step(s) updated, commit SHA rebased to HEAD.${outside}`
     );
 
     file.walkthrough = result.walkthrough;
     currentWalkthroughFile = file;
+    playbackCommit = undefined;
     currentStaleResults = await checkStaleness(
       result.walkthrough.steps,
-      result.walkthrough.commitSha
+      result.walkthrough.commitSha,
+      getHomeFolder(file.uri)
     );
 
-    panel.show();
+    showPlaybackView();
     engine.load(result.walkthrough);
+    return true;
   }
+  return false;
+}
+
+async function importTours(): Promise<void> {
+  const saved = await importCodeTours();
+  if (saved.length === 0) {
+    return;
+  }
+
+  treeProvider.refresh();
+  if (saved.length === 1) {
+    const action = await vscode.window.showInformationMessage(
+      "Tour imported!",
+      "Play",
+      "View JSON"
+    );
+    if (action === "Play") {
+      await openWalkthrough();
+    } else if (action === "View JSON") {
+      const doc = await vscode.workspace.openTextDocument(saved[0]);
+      await vscode.window.showTextDocument(doc);
+    }
+  }
+}
+
+async function upgradeFiles(): Promise<void> {
+  const summary = await upgradeWalkthroughFiles();
+  treeProvider.refresh();
+
+  for (const failure of summary.failed) {
+    vscode.window.showWarningMessage(failure);
+  }
+
+  // Each failure has its own warning above; this only says how many there were
+  const failed = summary.failed.length;
+  const failedNote = failed > 0 ? ` ${failed} file${failed !== 1 ? "s" : ""} could not be upgraded.` : "";
+
+  if (summary.upgraded.length === 0) {
+    if (failed > 0) {
+      vscode.window.showWarningMessage(`No walkthrough files were upgraded.${failedNote}`);
+    } else {
+      vscode.window.showInformationMessage(
+        `All walkthrough files are already at format version ${CURRENT_SCHEMA_VERSION}.`
+      );
+    }
+    return;
+  }
+
+  const message = `Upgraded ${summary.upgraded.length} walkthrough file${summary.upgraded.length !== 1 ? "s" : ""} to format version ${CURRENT_SCHEMA_VERSION}: ${summary.upgraded.join(", ")}.${failedNote}`;
+  if (failed > 0) {
+    vscode.window.showWarningMessage(message);
+  } else {
+    vscode.window.showInformationMessage(message);
+  }
+}
+
+async function showCoverageReport(): Promise<void> {
+  await treeProvider.ensureLoaded();
+  const report = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Computing walkthrough coverage..." },
+    () => computeCoverage(stepIndex)
+  );
+  const doc = await vscode.workspace.openTextDocument({
+    content: formatCoverageReport(report),
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(doc);
 }
 
 async function exportWalkthrough(): Promise<void> {
@@ -438,47 +1364,113 @@ async function exportWalkthrough(): Promise<void> {
   await exportWalkthroughFile(file);
 }
 
+interface ExportFormat {
+  label: string;
+  description: string;
+  ext: string;
+  filterName: string;
+  // Text formats open in an editor after export; everything else opens externally
+  openInEditor: boolean;
+  // Workspace-relative folder the save dialog starts in, if the format has a conventional home
+  defaultFolder?: string;
+  // `folder` is the walkthrough's workspace folder, which its step paths are relative to
+  render: (
+    walkthrough: Walkthrough,
+    links: DeepLinkContext,
+    folder: vscode.WorkspaceFolder | undefined
+  ) => Promise<string>;
+}
+
+function includeDeepLinks(): boolean {
+  return vscode.workspace.getConfiguration("codeWalkthrough").get<boolean>("export.deepLinks", false);
+}
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    label: "Markdown",
+    description: ".md — works on GitHub, GitLab, etc.",
+    ext: "md",
+    filterName: "Markdown",
+    openInEditor: true,
+    render: (walkthrough, links, folder) =>
+      exportToMarkdown(walkthrough, { deepLinks: includeDeepLinks() ? links : undefined, folder }),
+  },
+  {
+    label: "HTML",
+    description: ".html — standalone page with dark theme and navigation",
+    ext: "html",
+    filterName: "HTML",
+    openInEditor: false,
+    render: (walkthrough, links, folder) =>
+      exportToHtml(walkthrough, {
+        mediaRoot: diagramMediaRoot,
+        deepLinks: includeDeepLinks() ? links : undefined,
+        folder,
+      }),
+  },
+  {
+    label: "CodeTour",
+    description: ".tour — for the CodeTour extension and GitHub's tour viewer",
+    ext: "tour",
+    filterName: "CodeTour",
+    openInEditor: true,
+    defaultFolder: ".tours",
+    render: (walkthrough, _links, folder) => exportToCodeTour(walkthrough, { folder }),
+  },
+];
+
+// Added by other extensions through the API
+let registeredExportFormats: ExportFormat[] = [];
+
 async function exportWalkthroughFile(file: WalkthroughFile): Promise<void> {
-  const format = await vscode.window.showQuickPick(
-    [
-      { label: "Markdown", description: ".md — works on GitHub, GitLab, etc.", ext: "md" },
-      { label: "HTML", description: ".html — standalone page with dark theme and navigation", ext: "html" },
-    ],
+  const pick = await vscode.window.showQuickPick(
+    [...EXPORT_FORMATS, ...registeredExportFormats].map((f) => ({ label: f.label, description: f.description, format: f })),
     { placeHolder: "Export format" }
   );
 
-  if (!format) {
+  if (!pick) {
     return;
   }
+  const format = pick.format;
 
   const defaultName = file.walkthrough.title
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/(^-|-$)/g, "");
 
+  const home = getHomeFolder(file.uri);
+  const defaultUri = format.defaultFolder && home
+    ? vscode.Uri.joinPath(home.uri, format.defaultFolder, `${defaultName}.${format.ext}`)
+    : vscode.Uri.file(`${defaultName}.${format.ext}`);
+
   const saveUri = await vscode.window.showSaveDialog({
-    defaultUri: vscode.Uri.file(`${defaultName}.${format.ext}`),
-    filters:
-      format.ext === "md"
-        ? { Markdown: ["md"] }
-        : { HTML: ["html"] },
+    defaultUri,
+    filters: { [format.filterName]: [format.ext] },
   });
 
   if (!saveUri) {
     return;
   }
 
-  await vscode.window.withProgress(
-    { location: vscode.ProgressLocation.Notification, title: `Exporting to ${format.label}...` },
-    async () => {
-      const content =
-        format.ext === "md"
-          ? await exportToMarkdown(file.walkthrough)
-          : await exportToHtml(file.walkthrough);
-
-      await vscode.workspace.fs.writeFile(saveUri, Buffer.from(content, "utf-8"));
-    }
-  );
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Exporting to ${format.label}...` },
+      async () => {
+        const links: DeepLinkContext = {
+          walkthroughId: getWalkthroughId(file.uri),
+          link: (walkthroughId, step) => buildDeepLink(extensionId, walkthroughId, step),
+        };
+        const content = await format.render(file.walkthrough, links, home);
+        await vscode.workspace.fs.writeFile(saveUri, Buffer.from(content, "utf-8"));
+      }
+    );
+  } catch (err) {
+    // Formats registered by other extensions run their own code, so name the one that failed
+    vscode.window.showErrorMessage(
+      `Export to ${format.label} failed: ${err instanceof Error ? err.message : String(err)}`
+    );
+    return;
+  }
 
   const action = await vscode.window.showInformationMessage(
     `Walkthrough exported to ${format.label}.`,
@@ -486,7 +1478,7 @@ async function exportWalkthroughFile(file: WalkthroughFile): Promise<void> {
   );
 
   if (action === "Open File") {
-    if (format.ext === "md") {
+    if (format.openInEditor) {
       const doc = await vscode.workspace.openTextDocument(saveUri);
       await vscode.window.showTextDocument(doc);
     } else {
@@ -499,7 +1491,10 @@ function stopWalkthrough(): void {
   engine.stop();
   currentStaleResults = undefined;
   currentWalkthroughFile = undefined;
+  playbackCommit = undefined;
   clearAllHighlights();
+  focusSession.end();
+  inlineSubtitles.clear();
   panel.hide();
   statusBar.hideAll();
   vscode.commands.executeCommand("setContext", "codeWalkthrough.active", false);
@@ -507,4 +1502,5 @@ function stopWalkthrough(): void {
 
 export function deactivate(): void {
   clearAllHighlights();
+  focusSession?.end();
 }
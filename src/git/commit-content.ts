@@ -0,0 +1,36 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { getFileAtCommit, isCommitSha } from "./git";
+
+// Read-only documents holding a workspace file as it was at a commit, so a walkthrough can be
+// played exactly as it was recorded. The URI path is the file's absolute path and the query
+// carries the commit: walkthrough-commit:/home/me/app/src/server.ts?abc1234...
+
+export const COMMIT_SCHEME = "walkthrough-commit";
+
+export function toCommitUri(fsPath: string, sha: string): vscode.Uri {
+  if (!isCommitSha(sha)) {
+    throw new Error(`"${sha}" is not a commit SHA`);
+  }
+  return vscode.Uri.file(fsPath).with({ scheme: COMMIT_SCHEME, query: sha });
+}
+
+export class CommitContentProvider implements vscode.TextDocumentContentProvider {
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    // The query is whatever the URI says, not necessarily one built by toCommitUri
+    if (!isCommitSha(uri.query)) {
+      throw new Error(`"${uri.query}" is not a commit SHA`);
+    }
+    const fsPath = uri.with({ scheme: "file", query: "" }).fsPath;
+    // Run git in the file's own workspace folder so the right repository answers
+    const owner = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+    const root = owner?.uri.fsPath ?? path.dirname(fsPath);
+    const content = await getFileAtCommit(root, uri.query, path.relative(root, fsPath));
+    if (content === null) {
+      throw new Error(
+        `${path.relative(root, fsPath)} does not exist at commit ${uri.query.slice(0, 7)}`
+      );
+    }
+    return content;
+  }
+}
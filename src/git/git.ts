@@ -1,22 +1,21 @@
-import * as vscode from "vscode";
 import { execFile } from "child_process";
 import { promisify } from "util";
 
 const exec = promisify(execFile);
 
-function getWorkspaceRoot(): string | null {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders || folders.length === 0) {
-    return null;
-  }
-  return folders[0].uri.fsPath;
+// Every command runs in `root`, the workspace folder that owns the walkthrough or file, so each
+// folder of a multi-root workspace is served by its own repository. File paths are relative to
+// `root`, not to the repository root.
+
+// Full or abbreviated object names. Commits come from walkthrough files, and anything else (a
+// value starting with "-" in particular) would reach git as an option instead of a revision
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{4,64}$/i;
+
+export function isCommitSha(value: string): boolean {
+  return COMMIT_SHA_PATTERN.test(value);
 }
 
-export async function getHeadSha(): Promise<string | null> {
-  const root = getWorkspaceRoot();
-  if (!root) {
-    return null;
-  }
+export async function getHeadSha(root: string): Promise<string | null> {
   try {
     const { stdout } = await exec("git", ["rev-parse", "HEAD"], { cwd: root });
     return stdout.trim();
@@ -25,11 +24,7 @@ export async function getHeadSha(): Promise<string | null> {
   }
 }
 
-export async function isGitRepo(): Promise<boolean> {
-  const root = getWorkspaceRoot();
-  if (!root) {
-    return false;
-  }
+export async function isGitRepo(root: string): Promise<boolean> {
   try {
     await exec("git", ["rev-parse", "--git-dir"], { cwd: root });
     return true;
@@ -38,6 +33,16 @@ export async function isGitRepo(): Promise<boolean> {
   }
 }
 
+// Top-level directory of the repository `root` belongs to
+export async function getRepoRoot(root: string): Promise<string | null> {
+  try {
+    const { stdout } = await exec("git", ["rev-parse", "--show-toplevel"], { cwd: root });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
 export interface LineMapping {
   oldStart: number;
   oldCount: number;
@@ -47,18 +52,18 @@ export interface LineMapping {
 
 // Parses @@ -oldStart,oldCount +newStart,newCount @@ hunk headers into line offset mappings
 export async function computeLineMappings(
+  root: string,
   fromSha: string,
   toSha: string,
   filePath: string
 ): Promise<LineMapping[]> {
-  const root = getWorkspaceRoot();
-  if (!root) {
+  if (!isCommitSha(fromSha) || !isCommitSha(toSha)) {
     return [];
   }
   try {
     const { stdout } = await exec(
       "git",
-      ["diff", "-U0", fromSha, toSha, "--", filePath],
+      ["diff", "-U0", "--end-of-options", fromSha, toSha, "--", filePath],
       { cwd: root, maxBuffer: 10 * 1024 * 1024 }
     );
     return parseHunkHeaders(stdout);
@@ -107,34 +112,54 @@ export function remapLineRange(
 }
 
 export async function fileExistsAtCommit(
+  root: string,
   sha: string,
   filePath: string
 ): Promise<boolean> {
-  const root = getWorkspaceRoot();
-  if (!root) {
+  if (!isCommitSha(sha)) {
     return false;
   }
   try {
-    await exec("git", ["cat-file", "-e", `${sha}:${filePath}`], { cwd: root });
+    await exec("git", ["cat-file", "-e", "--end-of-options", `${sha}:./${filePath.replace(/\\/g, "/")}`], { cwd: root });
     return true;
   } catch {
     return false;
   }
 }
 
+export async function getFileAtCommit(
+  root: string,
+  sha: string,
+  filePath: string
+): Promise<string | null> {
+  if (!isCommitSha(sha)) {
+    return null;
+  }
+  try {
+    const { stdout } = await exec(
+      "git",
+      ["show", "--end-of-options", `${sha}:./${filePath.replace(/\\/g, "/")}`],
+      { cwd: root, maxBuffer: 10 * 1024 * 1024 }
+    );
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
 export async function getFileRenames(
+  root: string,
   fromSha: string,
   toSha: string,
   filePath: string
 ): Promise<string | null> {
-  const root = getWorkspaceRoot();
-  if (!root) {
+  if (!isCommitSha(fromSha) || !isCommitSha(toSha)) {
     return null;
   }
   try {
     const { stdout } = await exec(
       "git",
-      ["diff", "--name-status", "-M", fromSha, toSha, "--", filePath],
+      ["diff", "--name-status", "--relative", "-M", "--end-of-options", fromSha, toSha, "--", filePath],
       { cwd: root }
     );
 
@@ -1,10 +1,19 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import * as crypto from "crypto";
-import { Walkthrough, WalkthroughStep } from "../walkthrough/types";
+import {
+  StepAnchor,
+  Walkthrough,
+  WalkthroughStep,
+  getStepAnchors,
+  withStepAnchors,
+} from "../walkthrough/types";
 import { WalkthroughFile } from "../walkthrough/types";
+import { hashRange } from "../walkthrough/range";
+import { serializeWalkthrough } from "../walkthrough/loader";
+import { getHomeFolder, locateStepFile, toStepPath } from "../walkthrough/workspace";
 import {
   getHeadSha,
+  getRepoRoot,
   computeLineMappings,
   remapLineRange,
   fileExistsAtCommit,
@@ -15,21 +24,29 @@ export interface RepairResult {
   repaired: boolean;
   stepsFixed: number;
   stepsUnresolvable: number;
+  // Steps pointing into another workspace folder's repository, which the commit SHAs don't belong to
+  stepsOutsideRepo: number;
   walkthrough: Walkthrough;
 }
 
+type AnchorOutcome = "unchanged" | "fixed" | "unresolvable" | "outside";
+
+type MappingsCache = Map<string, Awaited<ReturnType<typeof computeLineMappings>>>;
+
 export async function repairWalkthrough(
   walkthroughFile: WalkthroughFile
 ): Promise<RepairResult> {
   const walkthrough = walkthroughFile.walkthrough;
   const oldSha = walkthrough.commitSha;
-  const newSha = await getHeadSha();
+  const home = getHomeFolder(walkthroughFile.uri);
+  const newSha = home ? await getHeadSha(home.uri.fsPath) : null;
 
-  if (!oldSha || !newSha) {
+  if (!oldSha || !newSha || !home) {
     return {
       repaired: false,
       stepsFixed: 0,
       stepsUnresolvable: walkthrough.steps.length,
+      stepsOutsideRepo: 0,
       walkthrough,
     };
   }
@@ -39,116 +56,48 @@ export async function repairWalkthrough(
       repaired: true,
       stepsFixed: 0,
       stepsUnresolvable: 0,
+      stepsOutsideRepo: 0,
       walkthrough,
     };
   }
 
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders) {
-    return {
-      repaired: false,
-      stepsFixed: 0,
-      stepsUnresolvable: walkthrough.steps.length,
-      walkthrough,
-    };
-  }
-
-  const rootPath = workspaceFolders[0].uri.fsPath;
   const repairedSteps: WalkthroughStep[] = [];
   let stepsFixed = 0;
   let stepsUnresolvable = 0;
-
-  const mappingsCache = new Map<string, Awaited<ReturnType<typeof computeLineMappings>>>();
-
-  for (const step of walkthrough.steps) {
-    let currentFile = step.file;
-
-    const existsOld = await fileExistsAtCommit(oldSha, currentFile);
-    if (existsOld) {
-      const renamed = await getFileRenames(oldSha, newSha, currentFile);
-      if (renamed) {
-        currentFile = renamed;
-      }
+  let stepsOutsideRepo = 0;
+
+  const mappingsCache: MappingsCache = new Map();
+  // Folders in the home repository, found out once per folder
+  const homeRepo = await getRepoRoot(home.uri.fsPath);
+  const inHomeRepo = new Map<string, boolean>([[home.uri.fsPath, true]]);
+  const isInHomeRepo = async (root: string): Promise<boolean> => {
+    let inside = inHomeRepo.get(root);
+    if (inside === undefined) {
+      inside = homeRepo !== null && (await getRepoRoot(root)) === homeRepo;
+      inHomeRepo.set(root, inside);
     }
+    return inside;
+  };
 
-    const currentFilePath = path.resolve(rootPath, currentFile);
-    const uri = vscode.Uri.file(currentFilePath);
-
-    let doc: vscode.TextDocument;
-    try {
-      doc = await vscode.workspace.openTextDocument(uri);
-    } catch {
-      repairedSteps.push(step);
-      stepsUnresolvable++;
-      continue;
-    }
+  for (const step of walkthrough.steps) {
+    const anchors: StepAnchor[] = [];
+    const outcomes: AnchorOutcome[] = [];
 
-    const currentContent = doc.getText(
-      new vscode.Range(
-        Math.max(0, step.lines[0] - 1),
-        0,
-        Math.min(doc.lineCount - 1, step.lines[1] - 1),
-        doc.lineAt(Math.min(doc.lineCount - 1, step.lines[1] - 1)).text.length
-      )
-    );
-    const currentHash = crypto
-      .createHash("sha256")
-      .update(currentContent)
-      .digest("hex")
-      .slice(0, 12);
-
-    if (currentHash === step.contentHash && currentFile === step.file) {
-      repairedSteps.push(step);
-      continue;
+    for (const anchor of getStepAnchors(step)) {
+      const repaired = await repairAnchor(anchor, oldSha, newSha, home, mappingsCache, isInHomeRepo);
+      anchors.push(repaired.anchor);
+      outcomes.push(repaired.outcome);
     }
 
-    const cacheKey = `${currentFile}`;
-    let mappings = mappingsCache.get(cacheKey);
-    if (mappings === undefined) {
-      mappings = await computeLineMappings(oldSha, newSha, step.file);
-      mappingsCache.set(cacheKey, mappings);
-    }
+    repairedSteps.push(withStepAnchors(step, anchors));
 
-    if (mappings.length > 0) {
-      const [newStart, newEnd] = remapLineRange(
-        step.lines[0],
-        step.lines[1],
-        mappings
-      );
-
-      const clampedStart = Math.max(1, newStart);
-      const clampedEnd = Math.min(doc.lineCount, Math.max(clampedStart, newEnd));
-
-      const remappedContent = doc.getText(
-        new vscode.Range(
-          clampedStart - 1,
-          0,
-          clampedEnd - 1,
-          doc.lineAt(clampedEnd - 1).text.length
-        )
-      );
-      const remappedHash = crypto
-        .createHash("sha256")
-        .update(remappedContent)
-        .digest("hex")
-        .slice(0, 12);
-
-      repairedSteps.push({
-        ...step,
-        file: currentFile,
-        lines: [clampedStart, clampedEnd],
-        contentHash: remappedHash,
-      });
+    if (outcomes.includes("unresolvable")) {
+      stepsUnresolvable++;
+    } else if (outcomes.includes("outside")) {
+      stepsOutsideRepo++;
+    } else if (outcomes.includes("fixed")) {
       stepsFixed++;
-      continue;
     }
-
-    repairedSteps.push({
-      ...step,
-      file: currentFile,
-      contentHash: currentHash,
-    });
-    stepsUnresolvable++;
   }
 
   const repairedWalkthrough: Walkthrough = {
@@ -161,15 +110,96 @@ export async function repairWalkthrough(
     repaired: stepsFixed > 0 || stepsUnresolvable === 0,
     stepsFixed,
     stepsUnresolvable,
+    stepsOutsideRepo,
     walkthrough: repairedWalkthrough,
   };
 }
 
+async function repairAnchor(
+  anchor: StepAnchor,
+  oldSha: string,
+  newSha: string,
+  home: vscode.WorkspaceFolder,
+  mappingsCache: MappingsCache,
+  isInHomeRepo: (root: string) => Promise<boolean>
+): Promise<{ anchor: StepAnchor; outcome: AnchorOutcome }> {
+  const location = locateStepFile(anchor.file, home);
+  if (!location) {
+    return { anchor, outcome: "unresolvable" };
+  }
+  // The commits are the home repository's, so anchors in another repository are left alone
+  if (!(await isInHomeRepo(location.root))) {
+    return { anchor, outcome: "outside" };
+  }
+
+  // Renamed files keep the anchor's style of path: relative to home, or prefixed with their folder
+  let currentFile = anchor.file;
+  let currentFilePath = location.fsPath;
+  const existsOld = await fileExistsAtCommit(location.root, oldSha, location.relativePath);
+  if (existsOld) {
+    const renamed = await getFileRenames(location.root, oldSha, newSha, location.relativePath);
+    if (renamed) {
+      currentFilePath = path.resolve(location.root, renamed);
+      currentFile = toStepPath(vscode.Uri.file(currentFilePath), home);
+    }
+  }
+
+  let doc: vscode.TextDocument;
+  try {
+    doc = await vscode.workspace.openTextDocument(vscode.Uri.file(currentFilePath));
+  } catch {
+    return { anchor, outcome: "unresolvable" };
+  }
+
+  const currentHash = hashRange(doc, anchor.lines, anchor.columns);
+
+  if (currentHash === anchor.contentHash && currentFile === anchor.file) {
+    return { anchor, outcome: "unchanged" };
+  }
+
+  const cacheKey = currentFilePath;
+  let mappings = mappingsCache.get(cacheKey);
+  if (mappings === undefined) {
+    mappings = await computeLineMappings(location.root, oldSha, newSha, location.relativePath);
+    mappingsCache.set(cacheKey, mappings);
+  }
+
+  if (mappings.length > 0) {
+    const [newStart, newEnd] = remapLineRange(
+      anchor.lines[0],
+      anchor.lines[1],
+      mappings
+    );
+
+    const clampedStart = Math.max(1, newStart);
+    const clampedEnd = Math.min(doc.lineCount, Math.max(clampedStart, newEnd));
+
+    return {
+      anchor: {
+        ...anchor,
+        file: currentFile,
+        lines: [clampedStart, clampedEnd],
+        contentHash: hashRange(doc, [clampedStart, clampedEnd], anchor.columns),
+      },
+      outcome: "fixed",
+    };
+  }
+
+  return {
+    anchor: {
+      ...anchor,
+      file: currentFile,
+      contentHash: currentHash,
+    },
+    outcome: "unresolvable",
+  };
+}
+
 export async function saveRepairedWalkthrough(
   originalUri: string,
   walkthrough: Walkthrough
 ): Promise<void> {
   const uri = vscode.Uri.file(originalUri);
-  const content = JSON.stringify(walkthrough, null, 2) + "\n";
+  const content = serializeWalkthrough(originalUri, walkthrough);
   await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
 }
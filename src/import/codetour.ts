@@ -0,0 +1,306 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Walkthrough, WalkthroughStep } from "../walkthrough/types";
+import { hashRange } from "../walkthrough/range";
+import { getHeadSha } from "../git/git";
+import { CURRENT_SCHEMA_VERSION } from "../walkthrough/migrate";
+import { getHomeFolder } from "../walkthrough/workspace";
+import { serializeWalkthrough } from "../walkthrough/loader";
+import { chooseSaveTarget, walkthroughSlug } from "../walkthrough/save-target";
+
+export const TOUR_GLOBS = [".tours/*.tour", ".vscode/tours/*.tour"];
+
+interface CodeTourPosition {
+  line: number;
+  character: number;
+}
+
+interface CodeTourStep {
+  title?: string;
+  description?: string;
+  file?: string;
+  directory?: string;
+  uri?: string;
+  line?: number;
+  pattern?: string;
+  selection?: { start: CodeTourPosition; end: CodeTourPosition };
+}
+
+export interface CodeTour {
+  title: string;
+  description?: string;
+  ref?: string;
+  steps: CodeTourStep[];
+}
+
+const DIRECTORY_ENTRY_PREFERENCE = [/^readme/i, /^index\./i, /^main\./i, /^mod\./i];
+
+export async function findTourFiles(): Promise<vscode.Uri[]> {
+  const results: vscode.Uri[] = [];
+  for (const glob of TOUR_GLOBS) {
+    results.push(...(await vscode.workspace.findFiles(glob, "**/node_modules/**")));
+  }
+  return results;
+}
+
+export async function readTour(uri: vscode.Uri): Promise<CodeTour | null> {
+  try {
+    const raw = await vscode.workspace.fs.readFile(uri);
+    const data = JSON.parse(Buffer.from(raw).toString("utf-8")) as Partial<CodeTour>;
+    if (typeof data.title !== "string" || !Array.isArray(data.steps)) {
+      return null;
+    }
+    // Hand-edited tours can contain anything; steps that don't have the expected shape are dropped
+    const steps = (data.steps as unknown[]).filter(isTourStep);
+    return { title: data.title, description: data.description, ref: data.ref, steps };
+  } catch {
+    return null;
+  }
+}
+
+function isOptional(value: unknown, type: "string" | "number"): boolean {
+  return value === undefined || typeof value === type;
+}
+
+function isPosition(value: unknown): value is CodeTourPosition {
+  const pos = value as CodeTourPosition | null;
+  return typeof pos === "object" && pos !== null && typeof pos.line === "number" && typeof pos.character === "number";
+}
+
+function isTourStep(value: unknown): value is CodeTourStep {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const step = value as Record<string, unknown>;
+  const selection = step.selection as CodeTourStep["selection"] | undefined;
+  return (
+    ["title", "description", "file", "directory", "uri", "pattern"].every((key) => isOptional(step[key], "string")) &&
+    isOptional(step.line, "number") &&
+    (selection === undefined || (isPosition(selection?.start) && isPosition(selection?.end)))
+  );
+}
+
+// Converts a CodeTour into a walkthrough. Content-only and URL steps have nothing to highlight,
+// so their text is folded into the next located step (or the previous one at the end of the tour).
+// Tour paths are relative to `folder`, the workspace folder holding the tour.
+export async function convertTour(
+  tour: CodeTour,
+  options: { computeHashes: boolean; folder?: vscode.WorkspaceFolder }
+): Promise<Walkthrough> {
+  const rootPath = (options.folder ?? getHomeFolder())?.uri.fsPath ?? "";
+
+  const steps: WalkthroughStep[] = [];
+  let pendingText: string[] = [];
+
+  for (const tourStep of tour.steps) {
+    const text = describeStep(tourStep);
+    const located = await locateStep(rootPath, tourStep);
+
+    if (!located) {
+      pendingText.push(text);
+      continue;
+    }
+
+    const subtitle = [...pendingText, text].filter((t) => t.length > 0).join("\n\n");
+    pendingText = [];
+
+    let contentHash: string | undefined;
+    if (options.computeHashes && located.doc) {
+      contentHash = hashRange(located.doc, located.lines, located.columns);
+    }
+
+    steps.push({
+      file: located.file,
+      lines: located.lines,
+      columns: located.columns,
+      contentHash,
+      subtitle,
+      duration: 8,
+    });
+  }
+
+  if (pendingText.length > 0 && steps.length > 0) {
+    const last = steps[steps.length - 1];
+    last.subtitle = [last.subtitle, ...pendingText].filter((t) => t.length > 0).join("\n\n");
+  }
+
+  const commitSha = options.computeHashes && rootPath ? await getHeadSha(rootPath) : null;
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    title: tour.title,
+    description: tour.description ?? "",
+    commitSha: commitSha ?? undefined,
+    steps,
+  };
+}
+
+function describeStep(step: CodeTourStep): string {
+  const parts: string[] = [];
+  if (step.title) {
+    parts.push(`**${step.title}**`);
+  }
+  if (step.directory && !step.file) {
+    parts.push(`Directory \`${step.directory}\``);
+  }
+  if (step.description) {
+    parts.push(step.description);
+  }
+  if (step.uri) {
+    parts.push(step.uri);
+  }
+  return parts.join("\n\n");
+}
+
+async function locateStep(
+  rootPath: string,
+  step: CodeTourStep
+): Promise<{
+  file: string;
+  lines: [number, number];
+  columns?: [number, number];
+  doc?: vscode.TextDocument;
+} | null> {
+  const file = step.file ?? (step.directory ? await pickDirectoryEntry(rootPath, step.directory) : null);
+  if (!file) {
+    return null;
+  }
+
+  let doc: vscode.TextDocument | undefined;
+  try {
+    doc = await vscode.workspace.openTextDocument(vscode.Uri.file(path.resolve(rootPath, file)));
+  } catch {
+  }
+
+  if (step.selection) {
+    const { start, end } = step.selection;
+    return {
+      file,
+      lines: [start.line, Math.max(start.line, end.line)],
+      columns: [start.character, end.character],
+      doc,
+    };
+  }
+
+  if (step.line !== undefined) {
+    return { file, lines: [step.line, step.line], doc };
+  }
+
+  if (step.pattern && doc) {
+    const line = findPatternLine(doc, step.pattern);
+    if (line !== null) {
+      return { file, lines: [line, line], doc };
+    }
+  }
+
+  return { file, lines: [1, 1], doc };
+}
+
+function findPatternLine(doc: vscode.TextDocument, pattern: string): number | null {
+  try {
+    const match = new RegExp(pattern, "m").exec(doc.getText());
+    if (match) {
+      return doc.positionAt(match.index).line + 1;
+    }
+  } catch {
+  }
+  return null;
+}
+
+// Directory steps point at a folder; anchor them on its most representative file
+async function pickDirectoryEntry(rootPath: string, directory: string): Promise<string | null> {
+  try {
+    const entries = await vscode.workspace.fs.readDirectory(
+      vscode.Uri.file(path.resolve(rootPath, directory))
+    );
+    const files = entries
+      .filter(([, type]) => type === vscode.FileType.File)
+      .map(([name]) => name)
+      .sort((a, b) => a.localeCompare(b));
+    if (files.length === 0) {
+      return null;
+    }
+    const preferred = DIRECTORY_ENTRY_PREFERENCE
+      .map((re) => files.find((f) => re.test(f)))
+      .find((f) => f !== undefined);
+    return path.posix.join(directory, preferred ?? files[0]);
+  } catch {
+    return null;
+  }
+}
+
+export async function importCodeTours(): Promise<vscode.Uri[]> {
+  if (!vscode.workspace.workspaceFolders) {
+    vscode.window.showWarningMessage("No workspace open.");
+    return [];
+  }
+
+  const tourFiles = await findTourFiles();
+  if (tourFiles.length === 0) {
+    vscode.window.showInformationMessage("No CodeTour files found in .tours/ or .vscode/tours/.");
+    return [];
+  }
+
+  const tours: Array<{ uri: vscode.Uri; tour: CodeTour }> = [];
+  for (const uri of tourFiles) {
+    const tour = await readTour(uri);
+    if (tour) {
+      tours.push({ uri, tour });
+    } else {
+      vscode.window.showWarningMessage(`Invalid CodeTour file: ${path.basename(uri.fsPath)}`);
+    }
+  }
+
+  const picks = await vscode.window.showQuickPick(
+    tours.map((t) => ({
+      label: t.tour.title,
+      description: vscode.workspace.asRelativePath(t.uri),
+      detail: `${t.tour.steps.length} steps`,
+      picked: true,
+      entry: t,
+    })),
+    { placeHolder: "Select tours to import", canPickMany: true }
+  );
+
+  if (!picks || picks.length === 0) {
+    return [];
+  }
+
+  // Each tour is imported next to itself, into its own workspace folder's .walkthrough/
+  const saved: vscode.Uri[] = [];
+  for (const pick of picks) {
+    const folder = getHomeFolder(pick.entry.uri.fsPath);
+    if (!folder) {
+      continue;
+    }
+    const walkthrough = await convertTour(pick.entry.tour, { computeHashes: true, folder });
+    if (walkthrough.steps.length === 0) {
+      vscode.window.showWarningMessage(
+        `Skipped "${pick.entry.tour.title}": no steps point at a file.`
+      );
+      continue;
+    }
+
+    const walkthroughDir = path.join(folder.uri.fsPath, ".walkthrough");
+    try {
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(walkthroughDir));
+    } catch {
+    }
+    const target = await chooseSaveTarget(walkthroughDir, walkthroughSlug(walkthrough.title), walkthrough);
+    if (!target) {
+      continue;
+    }
+    const uri = vscode.Uri.file(target.filePath);
+    const content = serializeWalkthrough(target.filePath, target.walkthrough);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
+    saved.push(uri);
+  }
+
+  if (saved.length > 0) {
+    vscode.window.showInformationMessage(
+      `Imported ${saved.length} tour${saved.length !== 1 ? "s" : ""} into .walkthrough/`
+    );
+  }
+
+  return saved;
+}
@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import { Walkthrough, WalkthroughStep } from "../walkthrough/types";
+import { ChapterRange, Walkthrough, WalkthroughStep, getChapterRanges } from "../walkthrough/types";
 
 export type PlaybackState = "idle" | "playing" | "paused";
 
@@ -13,6 +13,8 @@ export interface PlaybackStatus {
   currentStep: WalkthroughStep | null;
   walkthrough: Walkthrough | null;
   speed: SpeedMultiplier;
+  // Set while playback is restricted to a single chapter
+  chapter: ChapterRange | null;
 }
 
 export class PlaybackEngine {
@@ -22,18 +24,51 @@ export class PlaybackEngine {
   private autoAdvanceTimer: ReturnType<typeof setTimeout> | null = null;
   private defaultDuration = 8;
   private speed: SpeedMultiplier = 1;
+  private chapter: ChapterRange | null = null;
+  private finished = false;
 
   private readonly onChangeEmitter = new vscode.EventEmitter<PlaybackStatus>();
   readonly onChange = this.onChangeEmitter.event;
 
-  load(walkthrough: Walkthrough): void {
+  // Fires once per load, when playback tries to advance past the last step of the whole walkthrough
+  private readonly onFinishEmitter = new vscode.EventEmitter<Walkthrough>();
+  readonly onFinish = this.onFinishEmitter.event;
+
+  load(walkthrough: Walkthrough, startIndex = 0): void {
     this.stop();
     this.walkthrough = walkthrough;
-    this.currentIndex = 0;
+    this.currentIndex = Math.min(Math.max(0, startIndex), walkthrough.steps.length - 1);
+    this.finished = false;
     this.state = "paused";
     this.emit();
   }
 
+  playChapter(chapterIndex: number): boolean {
+    if (!this.walkthrough) {
+      return false;
+    }
+    const range = getChapterRanges(this.walkthrough).find(
+      (r) => r.chapterIndex === chapterIndex
+    );
+    if (!range || range.start >= range.end) {
+      return false;
+    }
+    this.chapter = range;
+    this.currentIndex = range.start;
+    this.emit();
+    if (this.state === "playing") {
+      this.scheduleAutoAdvance();
+    }
+    return true;
+  }
+
+  clearChapter(): void {
+    if (this.chapter) {
+      this.chapter = null;
+      this.emit();
+    }
+  }
+
   play(): void {
     if (!this.walkthrough || this.walkthrough.steps.length === 0) {
       return;
@@ -61,8 +96,13 @@ export class PlaybackEngine {
     if (!this.walkthrough) {
       return false;
     }
-    if (this.currentIndex >= this.walkthrough.steps.length - 1) {
+    const last = (this.chapter?.end ?? this.walkthrough.steps.length) - 1;
+    if (this.currentIndex >= last) {
       this.pause();
+      if (!this.chapter && !this.finished) {
+        this.finished = true;
+        this.onFinishEmitter.fire(this.walkthrough);
+      }
       return false;
     }
     this.currentIndex++;
@@ -74,7 +114,7 @@ export class PlaybackEngine {
   }
 
   prev(): boolean {
-    if (!this.walkthrough || this.currentIndex <= 0) {
+    if (!this.walkthrough || this.currentIndex <= (this.chapter?.start ?? 0)) {
       return false;
     }
     this.currentIndex--;
@@ -92,6 +132,10 @@ export class PlaybackEngine {
     if (index < 0 || index >= this.walkthrough.steps.length) {
       return;
     }
+    // Jumping outside the current chapter goes back to the whole walkthrough
+    if (this.chapter && (index < this.chapter.start || index >= this.chapter.end)) {
+      this.chapter = null;
+    }
     this.currentIndex = index;
     this.emit();
     if (this.state === "playing") {
@@ -120,6 +164,7 @@ export class PlaybackEngine {
   stop(): void {
     this.clearAutoAdvance();
     this.walkthrough = null;
+    this.chapter = null;
     this.currentIndex = 0;
     this.state = "idle";
     this.speed = 1;
@@ -134,6 +179,7 @@ export class PlaybackEngine {
       currentStep: this.walkthrough?.steps[this.currentIndex] ?? null,
       walkthrough: this.walkthrough,
       speed: this.speed,
+      chapter: this.chapter,
     };
   }
 
@@ -163,5 +209,6 @@ export class PlaybackEngine {
   dispose(): void {
     this.stop();
     this.onChangeEmitter.dispose();
+    this.onFinishEmitter.dispose();
   }
 }
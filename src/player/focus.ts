@@ -0,0 +1,162 @@
+import * as vscode from "vscode";
+
+// Presentation aids for playback: fading everything but the highlighted code, folding the
+// code around it, Zen mode, and a larger editor font. All of it is off until focus mode is
+// switched on with `Walkthrough: Toggle Focus Mode` or `codeWalkthrough.focus.enabled`.
+
+export interface FocusSettings {
+  enabled: boolean;
+  // Opacity of lines outside the highlight; 1 turns dimming off
+  dimOpacity: number;
+  foldUnrelated: boolean;
+  zenMode: boolean;
+  // Editor font zoom steps applied while playing
+  fontZoom: number;
+}
+
+export function getFocusSettings(): FocusSettings {
+  const config = vscode.workspace.getConfiguration("codeWalkthrough.focus");
+  return {
+    enabled: config.get<boolean>("enabled", false),
+    dimOpacity: Math.min(1, Math.max(0, config.get<number>("dimOpacity", 0.35))),
+    foldUnrelated: config.get<boolean>("foldUnrelated", false),
+    zenMode: config.get<boolean>("zenMode", false),
+    fontZoom: Math.max(0, Math.round(config.get<number>("fontZoom", 0))),
+  };
+}
+
+let dimDecoration: vscode.TextEditorDecorationType | null = null;
+// Documents folded during the session, unfolded again when it ends
+const foldedDocuments = new Set<string>();
+
+function getDimDecoration(opacity: number): vscode.TextEditorDecorationType {
+  if (!dimDecoration) {
+    dimDecoration = vscode.window.createTextEditorDecorationType({ opacity: String(opacity) });
+  }
+  return dimDecoration;
+}
+
+// Settings changed: the next step picks up the new opacity
+export function resetFocusStyle(): void {
+  dimDecoration?.dispose();
+  dimDecoration = null;
+}
+
+// Lines of the document not touched by any of `ranges`, as whole-line ranges
+function complementLines(doc: vscode.TextDocument, ranges: vscode.Range[]): vscode.Range[] {
+  const sorted = [...ranges].sort((a, b) => a.start.line - b.start.line);
+  const result: vscode.Range[] = [];
+  let next = 0;
+  for (const range of sorted) {
+    if (range.start.line > next) {
+      result.push(new vscode.Range(new vscode.Position(next, 0), doc.lineAt(range.start.line - 1).range.end));
+    }
+    next = Math.max(next, range.end.line + 1);
+  }
+  if (next < doc.lineCount) {
+    result.push(new vscode.Range(new vscode.Position(next, 0), doc.lineAt(doc.lineCount - 1).range.end));
+  }
+  return result;
+}
+
+// Folding commands only act on the active editor, so only the step's primary editor is folded
+export async function applyFocus(
+  editor: vscode.TextEditor,
+  ranges: vscode.Range[],
+  settings: FocusSettings = getFocusSettings()
+): Promise<void> {
+  if (!settings.enabled) {
+    return;
+  }
+
+  if (settings.dimOpacity < 1) {
+    editor.setDecorations(
+      getDimDecoration(settings.dimOpacity),
+      complementLines(editor.document, ranges)
+    );
+  }
+
+  if (settings.foldUnrelated && vscode.window.activeTextEditor === editor) {
+    const selectionLines = ranges.flatMap((r) =>
+      Array.from({ length: r.end.line - r.start.line + 1 }, (_, i) => r.start.line + i)
+    );
+    await vscode.commands.executeCommand("editor.foldAll");
+    // Reopen every region that contains a highlighted line, outermost included
+    await vscode.commands.executeCommand("editor.unfold", {
+      levels: Number.MAX_SAFE_INTEGER,
+      direction: "up",
+      selectionLines,
+    });
+    await vscode.commands.executeCommand("editor.unfold", {
+      levels: Number.MAX_SAFE_INTEGER,
+      direction: "down",
+      selectionLines,
+    });
+    editor.revealRange(ranges[0], vscode.TextEditorRevealType.InCenter);
+    foldedDocuments.add(editor.document.uri.toString());
+  }
+}
+
+export function clearFocus(editor: vscode.TextEditor): void {
+  if (dimDecoration) {
+    editor.setDecorations(dimDecoration, []);
+  }
+}
+
+// There is no API for reading whether Zen mode is on. With its default zenMode.hideLineNumbers it
+// turns line numbers off in the visible editors without touching the setting, which editors report.
+function zenModeAppearsOn(): boolean {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || !vscode.workspace.getConfiguration("zenMode").get<boolean>("hideLineNumbers", true)) {
+    return false;
+  }
+  const configured = vscode.workspace.getConfiguration("editor", editor.document).get<string>("lineNumbers", "on");
+  return configured !== "off" && editor.options.lineNumbers === vscode.TextEditorLineNumbersStyle.Off;
+}
+
+// Window-level effects that last from the first step until playback stops
+export class FocusSession {
+  private active = false;
+  private enteredZen = false;
+  private zoomSteps = 0;
+
+  async start(settings: FocusSettings = getFocusSettings()): Promise<void> {
+    if (this.active || !settings.enabled) {
+      return;
+    }
+    this.active = true;
+
+    // The only command toggles, so a presenter already in Zen mode is left there, and there on exit
+    if (settings.zenMode && !zenModeAppearsOn()) {
+      await vscode.commands.executeCommand("workbench.action.toggleZenMode");
+      this.enteredZen = true;
+    }
+    for (let i = 0; i < settings.fontZoom; i++) {
+      await vscode.commands.executeCommand("editor.action.fontZoomIn");
+    }
+    this.zoomSteps = settings.fontZoom;
+  }
+
+  async end(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+
+    for (let i = 0; i < this.zoomSteps; i++) {
+      await vscode.commands.executeCommand("editor.action.fontZoomOut");
+    }
+    this.zoomSteps = 0;
+
+    if (this.enteredZen) {
+      await vscode.commands.executeCommand("workbench.action.exitZenMode");
+      this.enteredZen = false;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (editor && foldedDocuments.has(editor.document.uri.toString())) {
+      await vscode.commands.executeCommand("editor.unfoldAll");
+    }
+    foldedDocuments.clear();
+  }
+}
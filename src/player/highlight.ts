@@ -1,61 +1,192 @@
 import * as vscode from "vscode";
-import * as path from "path";
-import { WalkthroughStep } from "../walkthrough/types";
+import { StepAnchor, WalkthroughStep, getStepAnchors } from "../walkthrough/types";
+import { toDocumentRange } from "../walkthrough/range";
+import { toCommitUri } from "../git/commit-content";
+import { resolveStepFile } from "../walkthrough/workspace";
+import { applyFocus, clearFocus, getFocusSettings, resetFocusStyle } from "./focus";
 
-const HIGHLIGHT_DECORATION = vscode.window.createTextEditorDecorationType({
-  backgroundColor: "rgba(255, 213, 79, 0.2)",
-  isWholeLine: true,
-  overviewRulerColor: "rgba(255, 213, 79, 0.8)",
-  overviewRulerLane: vscode.OverviewRulerLane.Center,
-  border: "1px solid rgba(255, 213, 79, 0.4)",
-});
+const MAX_VIEW_COLUMN = 9;
 
+interface HighlightDecorations {
+  lines: vscode.TextEditorDecorationType;
+  precise: vscode.TextEditorDecorationType;
+}
+
+// Colors are theme colors (contributes.colors), so they can be overridden per theme through
+// workbench.colorCustomizations. Gutter icons come from codeWalkthrough.highlight.gutterIcon.
+let decorations: HighlightDecorations | null = null;
+
+function resolveIconPath(iconPath: string | undefined): vscode.Uri | undefined {
+  if (!iconPath) {
+    return undefined;
+  }
+  const resolved = resolveStepFile(iconPath);
+  return resolved ? vscode.Uri.file(resolved) : undefined;
+}
+
+function getDecorations(): HighlightDecorations {
+  if (decorations) {
+    return decorations;
+  }
+
+  const setting = vscode.workspace
+    .getConfiguration("codeWalkthrough.highlight")
+    .get<string | { light?: string; dark?: string }>("gutterIcon", "");
+  const icons = typeof setting === "string" ? { light: setting, dark: setting } : setting;
+  const lightIcon = resolveIconPath(icons.light);
+  const darkIcon = resolveIconPath(icons.dark ?? icons.light);
+
+  decorations = {
+    lines: vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor("codeWalkthrough.highlightBackground"),
+      isWholeLine: true,
+      overviewRulerColor: new vscode.ThemeColor("codeWalkthrough.highlightOverviewRuler"),
+      overviewRulerLane: vscode.OverviewRulerLane.Center,
+      border: "1px solid",
+      borderColor: new vscode.ThemeColor("codeWalkthrough.highlightBorder"),
+      gutterIconSize: "contain",
+      light: lightIcon ? { gutterIconPath: lightIcon } : undefined,
+      dark: darkIcon ? { gutterIconPath: darkIcon } : undefined,
+    }),
+    precise: vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor("codeWalkthrough.preciseHighlightBackground"),
+      overviewRulerColor: new vscode.ThemeColor("codeWalkthrough.highlightOverviewRuler"),
+      overviewRulerLane: vscode.OverviewRulerLane.Center,
+      border: "1px solid",
+      borderColor: new vscode.ThemeColor("codeWalkthrough.preciseHighlightBorder"),
+      borderRadius: "2px",
+    }),
+  };
+  return decorations;
+}
+
+// Settings changed: drop the current decorations so the next step is drawn with the new ones
+export function resetHighlightStyle(): void {
+  clearAllHighlights();
+  decorations?.lines.dispose();
+  decorations?.precise.dispose();
+  decorations = null;
+  resetFocusStyle();
+}
+
+// The document a step path opens as: the file itself, or its content at `commitSha`
+export function getStepDocumentUri(
+  file: string,
+  home?: vscode.WorkspaceFolder,
+  commitSha?: string
+): vscode.Uri | null {
+  const filePath = resolveStepFile(file, home);
+  if (!filePath) {
+    return null;
+  }
+  return commitSha ? toCommitUri(filePath, commitSha) : vscode.Uri.file(filePath);
+}
+
+// Anchors in the same file share an editor; each distinct file gets the next free column. Anchors
+// whose file can't be found are skipped with a warning.
+// Paths resolve against `home`, the walkthrough's workspace folder. With `commitSha`, files are
+// opened read-only as they were at that commit.
 export async function navigateToStep(
-  step: WalkthroughStep
+  step: WalkthroughStep,
+  reservedColumn?: vscode.ViewColumn,
+  commitSha?: string,
+  home?: vscode.WorkspaceFolder
 ): Promise<vscode.TextEditor | null> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    return null;
+  const groups = new Map<string, { uri: vscode.Uri; anchors: StepAnchor[] }>();
+  for (const anchor of getStepAnchors(step)) {
+    const uri = getStepDocumentUri(anchor.file, home, commitSha);
+    // The step's other anchors are still worth showing
+    if (!uri) {
+      vscode.window.showWarningMessage(`Could not find file: ${anchor.file}`);
+      continue;
+    }
+    const group = groups.get(uri.toString()) ?? { uri, anchors: [] };
+    group.anchors.push(anchor);
+    groups.set(uri.toString(), group);
   }
 
-  const rootPath = workspaceFolders[0].uri.fsPath;
-  const filePath = path.resolve(rootPath, step.file);
-  const uri = vscode.Uri.file(filePath);
+  clearAllHighlights();
 
-  try {
-    const doc = await vscode.workspace.openTextDocument(uri);
-    const startLine = Math.max(0, step.lines[0] - 1);
-    const endLine = Math.max(startLine, step.lines[1] - 1);
-
-    const editor = await vscode.window.showTextDocument(doc, {
-      viewColumn: vscode.ViewColumn.One,
-      preserveFocus: false,
-    });
-
-    const range = new vscode.Range(
-      new vscode.Position(startLine, 0),
-      new vscode.Position(endLine, doc.lineAt(endLine).text.length)
-    );
+  const { lines, precise } = getDecorations();
+  const focus = getFocusSettings();
+  let column = vscode.ViewColumn.One;
+  let primaryEditor: vscode.TextEditor | null = null;
 
-    editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+  for (const { uri, anchors } of groups.values()) {
+    if (column === reservedColumn) {
+      column++;
+    }
 
-    editor.setDecorations(HIGHLIGHT_DECORATION, [{ range }]);
+    try {
+      const doc = await vscode.workspace.openTextDocument(uri);
+      const editor: vscode.TextEditor = await vscode.window.showTextDocument(doc, {
+        viewColumn: Math.min(column, MAX_VIEW_COLUMN),
+        preserveFocus: primaryEditor !== null,
+      });
 
-    return editor;
-  } catch {
-    vscode.window.showWarningMessage(
-      `Could not open file: ${step.file}`
+      const ranges = anchors.map((a) => toDocumentRange(doc, a.lines, a.columns));
+      editor.revealRange(ranges[0], vscode.TextEditorRevealType.InCenter);
+      editor.setDecorations(
+        lines,
+        ranges.filter((_, i) => !anchors[i].columns).map((range) => ({ range }))
+      );
+      editor.setDecorations(
+        precise,
+        ranges.filter((_, i) => anchors[i].columns).map((range) => ({ range }))
+      );
+      await applyFocus(editor, ranges, focus);
+
+      primaryEditor = primaryEditor ?? editor;
+      column++;
+    } catch {
+      vscode.window.showWarningMessage(
+        `Could not open file: ${anchors[0].file}`
+      );
+    }
+  }
+
+  return primaryEditor;
+}
+
+// Highlights the first workspace symbol with exactly this name, falling back to a prefix match
+export async function revealSymbol(
+  name: string,
+  reservedColumn?: vscode.ViewColumn
+): Promise<boolean> {
+  let symbols: vscode.SymbolInformation[] | undefined;
+  try {
+    symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+      "vscode.executeWorkspaceSymbolProvider",
+      name
     );
-    return null;
+  } catch {
+    return false;
   }
+
+  const match =
+    symbols?.find((s) => s.name === name) ?? symbols?.find((s) => s.name.startsWith(name));
+  if (!match) {
+    return false;
+  }
+
+  const { range, uri } = match.location;
+  await navigateToStep(
+    { file: uri.fsPath, lines: [range.start.line + 1, range.end.line + 1], subtitle: "" },
+    reservedColumn
+  );
+  return true;
 }
 
 export function clearHighlights(editor: vscode.TextEditor): void {
-  editor.setDecorations(HIGHLIGHT_DECORATION, []);
+  if (decorations) {
+    editor.setDecorations(decorations.lines, []);
+    editor.setDecorations(decorations.precise, []);
+  }
+  clearFocus(editor);
 }
 
 export function clearAllHighlights(): void {
   for (const editor of vscode.window.visibleTextEditors) {
-    editor.setDecorations(HIGHLIGHT_DECORATION, []);
+    clearHighlights(editor);
   }
 }
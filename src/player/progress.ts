@@ -0,0 +1,87 @@
+import * as vscode from "vscode";
+
+const STORAGE_KEY = "codeWalkthrough.progress";
+
+export interface WalkthroughProgress {
+  completed: boolean;
+  // 0-based index of the step that was showing last
+  lastStep?: number;
+  // 0-based indices of every step that has been shown
+  visitedSteps?: number[];
+  // Seconds spent with the walkthrough open, fractional; rounded only for display
+  timeSpent?: number;
+}
+
+// Per-walkthrough progress, kept in workspace state and keyed by walkthrough id
+export class ProgressStore {
+  private readonly onChangeEmitter = new vscode.EventEmitter<string>();
+  readonly onChange = this.onChangeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  get(id: string): WalkthroughProgress | undefined {
+    return this.all()[id];
+  }
+
+  isCompleted(id: string): boolean {
+    return this.get(id)?.completed ?? false;
+  }
+
+  async markCompleted(id: string): Promise<void> {
+    if (this.isCompleted(id)) {
+      return;
+    }
+    await this.update(id, { completed: true });
+  }
+
+  async recordVisit(id: string, stepIndex: number): Promise<void> {
+    const visited = this.get(id)?.visitedSteps ?? [];
+    if (this.get(id)?.lastStep === stepIndex && visited.includes(stepIndex)) {
+      return;
+    }
+    await this.update(id, {
+      lastStep: stepIndex,
+      visitedSteps: visited.includes(stepIndex)
+        ? visited
+        : [...visited, stepIndex].sort((a, b) => a - b),
+    });
+  }
+
+  // Doesn't fire onChange: time is only shown in tooltips, which pick it up on the next redraw
+  async addTime(id: string, seconds: number): Promise<void> {
+    if (seconds <= 0) {
+      return;
+    }
+    // Kept unrounded: this is called for every step change, so rounding each time would drop short ones
+    await this.write(id, { timeSpent: (this.get(id)?.timeSpent ?? 0) + seconds });
+  }
+
+  private all(): Record<string, WalkthroughProgress> {
+    return this.state.get<Record<string, WalkthroughProgress>>(STORAGE_KEY, {});
+  }
+
+  private async write(id: string, changes: Partial<WalkthroughProgress>): Promise<void> {
+    const current = this.all();
+    const merged: WalkthroughProgress = { ...(current[id] ?? { completed: false }), ...changes };
+    await this.state.update(STORAGE_KEY, { ...current, [id]: merged });
+  }
+
+  private async update(id: string, changes: Partial<WalkthroughProgress>): Promise<void> {
+    await this.write(id, changes);
+    this.onChangeEmitter.fire(id);
+  }
+
+  dispose(): void {
+    this.onChangeEmitter.dispose();
+  }
+}
+
+export function formatTimeSpent(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) {
+    return "under a minute";
+  }
+  return minutes < 60
+    ? `${minutes} min`
+    : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
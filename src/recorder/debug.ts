@@ -0,0 +1,93 @@
+import * as vscode from "vscode";
+
+// Debug-session recording: every time the debuggee stops (breakpoint, step, pause, exception)
+// the top stack frame becomes a step. Stops are read from the debug adapter's protocol messages,
+// which report each one exactly once, unlike the UI's active stack frame.
+
+export interface DebugStop {
+  session: vscode.DebugSession;
+  threadId: number;
+  // "breakpoint", "step", "pause", "exception", ... as reported by the adapter
+  reason: string;
+}
+
+export interface DebugFrame {
+  id: number;
+  // Function name as the debugger shows it in the call stack
+  name: string;
+  // Absolute path; frames without a file on disk (e.g. generated sources) are not reported
+  path: string;
+  // 1-based
+  line: number;
+}
+
+interface StoppedEvent {
+  type: "event";
+  event: "stopped";
+  body: { reason: string; threadId?: number };
+}
+
+function isStoppedEvent(message: { type?: string; event?: string }): message is StoppedEvent {
+  return message.type === "event" && message.event === "stopped";
+}
+
+// Registered for every debug type at activation, since trackers can only attach when a session
+// starts; sessions started before recording began are still picked up
+export class DebugStopWatcher implements vscode.DebugAdapterTrackerFactory {
+  private readonly onDidStopEmitter = new vscode.EventEmitter<DebugStop>();
+  readonly onDidStop = this.onDidStopEmitter.event;
+
+  createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+    return {
+      onDidSendMessage: (message: { type?: string; event?: string }) => {
+        if (isStoppedEvent(message) && message.body.threadId !== undefined) {
+          this.onDidStopEmitter.fire({
+            session,
+            threadId: message.body.threadId,
+            reason: message.body.reason,
+          });
+        }
+      },
+    };
+  }
+
+  dispose(): void {
+    this.onDidStopEmitter.dispose();
+  }
+}
+
+export async function readTopFrame(session: vscode.DebugSession, threadId: number): Promise<DebugFrame | null> {
+  try {
+    const response = await session.customRequest("stackTrace", { threadId, startFrame: 0, levels: 1 });
+    const frame = (response?.stackFrames as Array<{ id: number; name: string; line: number; source?: { path?: string } }> | undefined)?.[0];
+    if (!frame?.source?.path || frame.line < 1) {
+      return null;
+    }
+    return { id: frame.id, name: frame.name, path: frame.source.path, line: frame.line };
+  } catch {
+    return null;
+  }
+}
+
+// "name = value" for the first cheap scope of the frame (normally its locals)
+export async function readLocals(session: vscode.DebugSession, frameId: number, limit: number): Promise<string[]> {
+  try {
+    const { scopes } = (await session.customRequest("scopes", { frameId })) as {
+      scopes: Array<{ variablesReference: number; expensive?: boolean }>;
+    };
+    const scope = scopes.find((s) => !s.expensive && s.variablesReference > 0);
+    if (!scope) {
+      return [];
+    }
+
+    const { variables } = (await session.customRequest("variables", {
+      variablesReference: scope.variablesReference,
+    })) as { variables: Array<{ name: string; value: string }> };
+    return variables.slice(0, limit).map((v) => {
+      const value = v.value.length > 80 ? `${v.value.slice(0, 77)}...` : v.value;
+      return `${v.name} = ${value}`;
+    });
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,213 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  Walkthrough,
+  WalkthroughFile,
+  WalkthroughStep,
+  moveChapterShift,
+  shiftChapters,
+  withStepAnchors,
+} from "../walkthrough/types";
+import { serializeWalkthrough } from "../walkthrough/loader";
+import { getHomeFolder } from "../walkthrough/workspace";
+import { captureSelectionAnchors } from "./recorder";
+
+// Edits an existing walkthrough file. Changes go to a working copy that the sidebar shows while
+// editing; `save` writes it back to the same file in the same format.
+//
+// Chapter starts shift along when steps are inserted, deleted or moved in front of them, so the
+// other steps stay in their chapters; the visual editor moves steps the same way.
+export class WalkthroughEditor {
+  private file: WalkthroughFile | null = null;
+  private draft: Walkthrough | null = null;
+  private dirty = false;
+  // The file's contents when editing started or it was last saved, to notice changes made elsewhere
+  private baseline: string | null = null;
+
+  private readonly onChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onChange = this.onChangeEmitter.event;
+
+  get isEditing(): boolean {
+    return this.file !== null;
+  }
+
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  get editedFile(): WalkthroughFile | null {
+    return this.file;
+  }
+
+  // The working copy, or null when not editing
+  get walkthrough(): Walkthrough | null {
+    return this.draft;
+  }
+
+  async open(file: WalkthroughFile): Promise<void> {
+    this.file = file;
+    this.draft = JSON.parse(JSON.stringify(file.walkthrough)) as Walkthrough;
+    this.dirty = false;
+    this.baseline = null;
+    this.onChangeEmitter.fire();
+    const text = await readText(file.uri);
+    if (this.file === file) {
+      this.baseline = text;
+    }
+  }
+
+  close(): void {
+    this.file = null;
+    this.draft = null;
+    this.dirty = false;
+    this.baseline = null;
+    this.onChangeEmitter.fire();
+  }
+
+  // Inserts a step built from the editor's selection(s) after step `after` (0-based; -1 for the
+  // start). Returns the new step's index, or null if cancelled.
+  async insertStep(after: number, editor: vscode.TextEditor): Promise<number | null> {
+    if (!this.file || !this.draft) {
+      return null;
+    }
+    const home = getHomeFolder(this.file.uri);
+    if (!home) {
+      return null;
+    }
+
+    const anchors = await captureSelectionAnchors(editor, home);
+    if (anchors.length === 0) {
+      return null;
+    }
+
+    const index = after + 1;
+    const subtitle = await vscode.window.showInputBox({
+      prompt: `Subtitle for the new step ${index + 1} (${anchors[0].file}:${anchors[0].lines[0]}-${anchors[0].lines[1]})`,
+      placeHolder: "Explain what this code does...",
+    });
+    if (subtitle === undefined || !this.draft) {
+      return null;
+    }
+
+    const step: WalkthroughStep = withStepAnchors({ ...anchors[0], subtitle, duration: 8 }, anchors);
+    this.draft.steps.splice(index, 0, step);
+    this.draft.chapters = shiftChapters(this.draft, (start) =>
+      start > index || (start === index && index > 0) ? start + 1 : start
+    );
+    this.markDirty();
+    return index;
+  }
+
+  // Points step `index` at the editor's selection(s), re-hashing the content and updating symbols
+  async retargetStep(index: number, editor: vscode.TextEditor): Promise<boolean> {
+    if (!this.file || !this.draft?.steps[index]) {
+      return false;
+    }
+    const home = getHomeFolder(this.file.uri);
+    if (!home) {
+      return false;
+    }
+
+    const anchors = await captureSelectionAnchors(editor, home);
+    if (anchors.length === 0 || !this.draft?.steps[index]) {
+      return false;
+    }
+
+    this.draft.steps[index] = withStepAnchors(this.draft.steps[index], anchors);
+    this.markDirty();
+    return true;
+  }
+
+  // Input boxes are single-line, so line breaks are shown and typed as \n, and backslashes as \\
+  async editSubtitle(index: number): Promise<boolean> {
+    const step = this.draft?.steps[index];
+    if (!step) {
+      return false;
+    }
+
+    const value = await vscode.window.showInputBox({
+      prompt: `Subtitle for step ${index + 1} (use \\n for a line break, \\\\ for a backslash)`,
+      value: step.subtitle.replace(/\\/g, "\\\\").replace(/\n/g, "\\n"),
+    });
+    if (value === undefined || !this.draft?.steps[index]) {
+      return false;
+    }
+
+    // Any other backslash was typed as-is, e.g. in a Windows path, and is kept
+    const subtitle = value.replace(/\\([\\n])/g, (_, c: string) => (c === "n" ? "\n" : "\\"));
+    this.draft.steps[index] = { ...this.draft.steps[index], subtitle };
+    this.markDirty();
+    return true;
+  }
+
+  // Takes step `from` out and puts it at `to`, both 0-based
+  moveStep(from: number, to: number): void {
+    if (!this.draft || from === to || !this.draft.steps[from]) {
+      return;
+    }
+    const [step] = this.draft.steps.splice(from, 1);
+    const target = Math.min(to, this.draft.steps.length);
+    this.draft.steps.splice(target, 0, step);
+    this.draft.chapters = shiftChapters(this.draft, moveChapterShift(from, target));
+    this.markDirty();
+  }
+
+  deleteStep(index: number): void {
+    if (!this.draft?.steps[index]) {
+      return;
+    }
+    this.draft.steps.splice(index, 1);
+    this.draft.chapters = shiftChapters(this.draft, (start) =>
+      start > index ? start - 1 : start
+    );
+    this.markDirty();
+  }
+
+  async save(): Promise<vscode.Uri | null> {
+    if (!this.file || !this.draft) {
+      return null;
+    }
+    if (this.draft.steps.length === 0) {
+      vscode.window.showWarningMessage("A walkthrough needs at least one step. Insert a step before saving.");
+      return null;
+    }
+
+    if ((await readText(this.file.uri)) !== this.baseline) {
+      const choice = await vscode.window.showWarningMessage(
+        `${path.basename(this.file.uri)} has changed on disk since you started editing it.`,
+        { modal: true, detail: "Overwrite replaces those changes with your edited copy." },
+        "Overwrite"
+      );
+      if (choice !== "Overwrite" || !this.file || !this.draft) {
+        return null;
+      }
+    }
+
+    const uri = vscode.Uri.file(this.file.uri);
+    const content = serializeWalkthrough(this.file.uri, this.draft);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
+    this.baseline = content;
+
+    this.file = { ...this.file, walkthrough: JSON.parse(JSON.stringify(this.draft)) as Walkthrough };
+    this.dirty = false;
+    this.onChangeEmitter.fire();
+    return uri;
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+    this.onChangeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.onChangeEmitter.dispose();
+  }
+}
+
+async function readText(fsPath: string): Promise<string | null> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(fsPath))).toString("utf-8");
+  } catch {
+    return null;
+  }
+}
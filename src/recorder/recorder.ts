@@ -1,30 +1,193 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import * as crypto from "crypto";
-import { Walkthrough, WalkthroughStep } from "../walkthrough/types";
+import { StepAnchor, Walkthrough, WalkthroughStep } from "../walkthrough/types";
+import { hashRange } from "../walkthrough/range";
+import { serializeWalkthrough } from "../walkthrough/loader";
+import { CURRENT_SCHEMA_VERSION } from "../walkthrough/migrate";
 import { getHeadSha } from "../git/git";
+import { getHomeFolder, toStepPath } from "../walkthrough/workspace";
+import { chooseSaveTarget, walkthroughSlug } from "../walkthrough/save-target";
+import { DebugStop, readLocals, readTopFrame } from "./debug";
 
 export interface RecordedStep {
   file: string;
   lines: [number, number];
+  columns?: [number, number];
   symbol: string;
   contentHash: string;
   subtitle: string;
+  anchors?: StepAnchor[];
+  // Auto-captured and not explained yet: the subtitle is empty, or holds only the debugger's locals
+  draft?: boolean;
+}
+
+// Manual recording captures on Ctrl+Shift+.; auto-capture follows the reader's navigation and
+// debug recording follows the debugger's stops. Both of those end with a review of the steps.
+export type RecordingMode = "manual" | "auto" | "debug";
+
+const DRAFT_KEY = "codeWalkthrough.recordingDraft";
+
+// An unfinished recording, kept in workspace state after every change so it survives a reload
+// or crash of the window
+export interface RecordingDraft {
+  title: string;
+  description: string;
+  mode?: RecordingMode;
+  // URI of the home workspace folder, once the first step has been captured
+  home?: string;
+  steps: RecordedStep[];
+  pendingAnchors: StepAnchor[];
+}
+
+// A selection that starts and ends on line boundaries is a whole-line capture; anything
+// narrower keeps its exact columns so playback can highlight just that expression
+function selectionColumns(
+  doc: vscode.TextDocument,
+  selection: vscode.Range
+): [number, number] | undefined {
+  if (selection.isEmpty) {
+    return undefined;
+  }
+  const endLineLength = doc.lineAt(selection.end.line).text.length;
+  const startsAtLineStart = selection.start.character === 0;
+  const endsAtLineEnd = selection.end.character === 0 || selection.end.character === endLineLength;
+  if (startsAtLineStart && endsAtLineEnd) {
+    return undefined;
+  }
+  return [selection.start.character + 1, selection.end.character + 1];
+}
+
+function findClosestSymbol(symbols: vscode.DocumentSymbol[], line: number): vscode.DocumentSymbol | null {
+  let best: vscode.DocumentSymbol | null = null;
+  let bestDistance = Infinity;
+
+  for (const sym of symbols) {
+    if (sym.range.start.line <= line && sym.range.end.line >= line) {
+      const distance = line - sym.range.start.line;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = sym;
+      }
+
+      const childResult = findClosestSymbol(sym.children, line);
+      if (childResult) {
+        return childResult;
+      }
+    }
+  }
+
+  return best;
+}
+
+async function findEnclosingSymbol(
+  doc: vscode.TextDocument,
+  line: number
+): Promise<vscode.DocumentSymbol | null> {
+  try {
+    const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+      "vscode.executeDocumentSymbolProvider",
+      doc.uri
+    );
+
+    if (!symbols || symbols.length === 0) {
+      return null;
+    }
+
+    return findClosestSymbol(symbols, line);
+  } catch {
+    return null;
+  }
+}
+
+async function findNearestSymbol(doc: vscode.TextDocument, line: number): Promise<string> {
+  return (await findEnclosingSymbol(doc, line))?.name ?? "";
+}
+
+async function captureRangeAnchor(
+  doc: vscode.TextDocument,
+  range: vscode.Range,
+  home: vscode.WorkspaceFolder
+): Promise<StepAnchor> {
+  const startLine = range.start.line + 1;
+  const endLine = Math.max(startLine, range.end.line + 1);
+  const lines: [number, number] = [startLine, endLine];
+  const columns = selectionColumns(doc, range);
+  const symbol = await findNearestSymbol(doc, range.start.line);
+
+  return {
+    file: toStepPath(doc.uri, home),
+    lines,
+    columns,
+    symbol: symbol || undefined,
+    contentHash: hashRange(doc, lines, columns),
+  };
+}
+
+// Every selection becomes an anchor, so multi-cursor selections yield several ranges in one file.
+// Paths are written relative to `home`, the walkthrough's workspace folder.
+export async function captureSelectionAnchors(
+  editor: vscode.TextEditor,
+  home: vscode.WorkspaceFolder
+): Promise<StepAnchor[]> {
+  const anchors: StepAnchor[] = [];
+  for (const selection of editor.selections) {
+    anchors.push(await captureRangeAnchor(editor.document, selection, home));
+  }
+  return anchors;
+}
+
+const MAX_DEBUG_VARIABLES = 10;
+
+function includeDebugVariables(): boolean {
+  return vscode.workspace.getConfiguration("codeWalkthrough").get<boolean>("recorder.debugVariables", false);
+}
+
+function getAutoCaptureDelay(): number {
+  return Math.max(
+    250,
+    vscode.workspace.getConfiguration("codeWalkthrough").get<number>("recorder.autoCaptureDelay", 2000)
+  );
 }
 
 export class Recorder {
   private recording = false;
+  // Auto-capture has stopped and the captured steps are waiting to be reviewed
+  private reviewing = false;
+  private mode: RecordingMode = "manual";
+  private autoCaptureListeners: vscode.Disposable[] = [];
+  private autoCaptureTimer: NodeJS.Timeout | undefined;
   private steps: RecordedStep[] = [];
+  private pendingAnchors: StepAnchor[] = [];
   private title = "";
   private description = "";
+  // The workspace folder of the first captured file; the walkthrough is saved there and files
+  // in other folders are recorded with that folder's name as a prefix
+  private home: vscode.WorkspaceFolder | undefined;
 
   private readonly onChangeEmitter = new vscode.EventEmitter<void>();
   readonly onChange = this.onChangeEmitter.event;
 
+  private readonly onSaveEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onSave = this.onSaveEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {}
+
   get isRecording(): boolean {
     return this.recording;
   }
 
+  get isReviewing(): boolean {
+    return this.reviewing;
+  }
+
+  get recordingMode(): RecordingMode {
+    return this.mode;
+  }
+
+  get homeFolder(): vscode.WorkspaceFolder | undefined {
+    return this.home;
+  }
+
   get stepCount(): number {
     return this.steps.length;
   }
@@ -33,7 +196,59 @@ export class Recorder {
     return this.steps;
   }
 
-  async start(): Promise<boolean> {
+  get unwrittenStepCount(): number {
+    return this.steps.filter((s) => s.draft).length;
+  }
+
+  get pendingAnchorCount(): number {
+    return this.pendingAnchors.length;
+  }
+
+  // The recording left unfinished by an earlier session, if any
+  get unfinishedDraft(): RecordingDraft | undefined {
+    return this.recording || this.reviewing ? undefined : this.state.get<RecordingDraft>(DRAFT_KEY);
+  }
+
+  // Picks up the unfinished recording where it stopped
+  resume(): boolean {
+    const draft = this.unfinishedDraft;
+    if (!draft) {
+      return false;
+    }
+
+    this.title = draft.title;
+    this.description = draft.description;
+    this.steps = draft.steps;
+    this.pendingAnchors = draft.pendingAnchors;
+    this.home = draft.home
+      ? vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(draft.home))
+      : undefined;
+    this.mode = draft.mode ?? "manual";
+    this.recording = true;
+    if (this.mode === "auto") {
+      this.watchNavigation();
+    }
+    this.onChangeEmitter.fire();
+    return true;
+  }
+
+  discardDraft(): void {
+    this.state.update(DRAFT_KEY, undefined);
+  }
+
+  private saveDraft(): void {
+    const draft: RecordingDraft = {
+      title: this.title,
+      description: this.description,
+      mode: this.mode,
+      home: this.home?.uri.toString(),
+      steps: this.steps,
+      pendingAnchors: this.pendingAnchors,
+    };
+    this.state.update(DRAFT_KEY, draft);
+  }
+
+  async start(mode: RecordingMode = "manual"): Promise<boolean> {
     const title = await vscode.window.showInputBox({
       prompt: "Walkthrough title",
       placeHolder: "e.g. Auth Flow",
@@ -50,12 +265,228 @@ export class Recorder {
     this.title = title;
     this.description = description ?? "";
     this.steps = [];
+    this.pendingAnchors = [];
+    this.home = undefined;
+    this.mode = mode;
     this.recording = true;
+    if (mode === "auto") {
+      this.watchNavigation();
+    }
+    this.saveDraft();
     this.onChangeEmitter.fire();
     return true;
   }
 
-  async captureStep(): Promise<boolean> {
+  // Selections held still for the capture delay become steps, and so do the places the cursor
+  // lands after a jump such as go-to-definition, captured as the enclosing symbol
+  private watchNavigation(): void {
+    this.stopWatchingNavigation();
+    this.autoCaptureListeners = [
+      vscode.window.onDidChangeTextEditorSelection((e) => {
+        this.scheduleAutoCapture(e.textEditor, e.kind === vscode.TextEditorSelectionChangeKind.Command);
+      }),
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor) {
+          this.scheduleAutoCapture(editor, true);
+        }
+      }),
+    ];
+  }
+
+  private stopWatchingNavigation(): void {
+    clearTimeout(this.autoCaptureTimer);
+    this.autoCaptureTimer = undefined;
+    this.autoCaptureListeners.forEach((d) => d.dispose());
+    this.autoCaptureListeners = [];
+  }
+
+  private scheduleAutoCapture(editor: vscode.TextEditor, jumped: boolean): void {
+    clearTimeout(this.autoCaptureTimer);
+    if (editor.document.uri.scheme !== "file") {
+      return;
+    }
+    this.autoCaptureTimer = setTimeout(() => {
+      this.autoCaptureTimer = undefined;
+      this.autoCapture(editor, jumped);
+    }, getAutoCaptureDelay());
+  }
+
+  private async autoCapture(editor: vscode.TextEditor, jumped: boolean): Promise<void> {
+    if (!this.recording || vscode.window.activeTextEditor !== editor) {
+      return;
+    }
+
+    let anchors: StepAnchor[];
+    if (!editor.selection.isEmpty) {
+      anchors = await this.captureAnchors(editor);
+    } else if (jumped) {
+      this.home = this.home ?? getHomeFolder(editor.document.uri.fsPath);
+      if (!this.home) {
+        return;
+      }
+      const doc = editor.document;
+      const line = editor.selection.active.line;
+      const symbol = await findEnclosingSymbol(doc, line);
+      const range = symbol
+        ? new vscode.Range(symbol.range.start.line, 0, symbol.range.end.line, doc.lineAt(symbol.range.end.line).text.length)
+        : doc.lineAt(line).range;
+      anchors = [await captureRangeAnchor(doc, range, this.home)];
+    } else {
+      return;
+    }
+
+    const [primary, ...rest] = anchors;
+    const last = this.steps[this.steps.length - 1];
+    if (
+      !primary ||
+      !this.recording ||
+      (last && last.file === primary.file && last.lines[0] === primary.lines[0] && last.lines[1] === primary.lines[1])
+    ) {
+      return;
+    }
+
+    this.steps.push({
+      file: primary.file,
+      lines: primary.lines,
+      columns: primary.columns,
+      symbol: primary.symbol ?? "",
+      contentHash: primary.contentHash ?? "",
+      subtitle: "",
+      anchors: rest.length > 0 ? rest : undefined,
+      draft: true,
+    });
+    this.saveDraft();
+    this.onChangeEmitter.fire();
+  }
+
+  // In debug mode, each stop becomes a draft step at the top frame's line, with the function name
+  // as its symbol. Frames outside the workspace, such as library code, are skipped.
+  async captureDebugStop(stop: DebugStop): Promise<void> {
+    if (!this.recording || this.mode !== "debug") {
+      return;
+    }
+
+    const frame = await readTopFrame(stop.session, stop.threadId);
+    if (!frame) {
+      return;
+    }
+    const uri = vscode.Uri.file(frame.path);
+    if (!vscode.workspace.getWorkspaceFolder(uri)) {
+      return;
+    }
+    this.home = this.home ?? getHomeFolder(frame.path);
+    if (!this.home) {
+      return;
+    }
+
+    let doc: vscode.TextDocument;
+    try {
+      doc = await vscode.workspace.openTextDocument(uri);
+    } catch {
+      return;
+    }
+    if (frame.line > doc.lineCount) {
+      return;
+    }
+    const anchor = await captureRangeAnchor(doc, doc.lineAt(frame.line - 1).range, this.home);
+
+    const last = this.steps[this.steps.length - 1];
+    if (!this.recording || (last && last.file === anchor.file && last.lines[0] === anchor.lines[0])) {
+      return;
+    }
+
+    let subtitle = "";
+    if (includeDebugVariables()) {
+      const locals = await readLocals(stop.session, frame.id, MAX_DEBUG_VARIABLES);
+      if (locals.length > 0) {
+        subtitle = `Locals:\n${locals.map((l) => `- \`${l.replace(/`/g, "'")}\``).join("\n")}`;
+      }
+    }
+
+    this.steps.push({
+      file: anchor.file,
+      lines: anchor.lines,
+      symbol: frame.name || anchor.symbol || "",
+      contentHash: anchor.contentHash ?? "",
+      subtitle,
+      draft: true,
+    });
+    this.saveDraft();
+    this.onChangeEmitter.fire();
+  }
+
+  // Ends auto-capture and holds the steps for pruning, merging, and annotating before saving
+  beginReview(): void {
+    if (!this.recording) {
+      return;
+    }
+    this.stopWatchingNavigation();
+    this.recording = false;
+    this.reviewing = true;
+    this.onChangeEmitter.fire();
+  }
+
+  // Back from the review to capturing more steps
+  continueRecording(): void {
+    if (!this.reviewing) {
+      return;
+    }
+    this.reviewing = false;
+    this.recording = true;
+    if (this.mode === "auto") {
+      this.watchNavigation();
+    }
+    this.onChangeEmitter.fire();
+  }
+
+  removeStep(index: number): void {
+    if (this.steps[index]) {
+      this.steps.splice(index, 1);
+      this.saveDraft();
+      this.onChangeEmitter.fire();
+    }
+  }
+
+  // Folds step `index` into the one before it as extra anchors
+  mergeWithPrevious(index: number): void {
+    const previous = this.steps[index - 1];
+    const step = this.steps[index];
+    if (!previous || !step) {
+      return;
+    }
+
+    const { subtitle, anchors, draft, symbol, contentHash, ...location } = step;
+    // Written subtitles win over unwritten ones; two unwritten ones keep whatever locals they hold
+    const written = [previous, step].filter((s) => !s.draft);
+    this.steps[index - 1] = {
+      ...previous,
+      subtitle: (written.length > 0 ? written : [previous, step])
+        .map((s) => s.subtitle)
+        .filter((s) => s)
+        .join("\n\n"),
+      draft: previous.draft && draft,
+      anchors: [
+        ...(previous.anchors ?? []),
+        { ...location, symbol: symbol || undefined, contentHash },
+        ...(anchors ?? []),
+      ],
+    };
+    this.steps.splice(index, 1);
+    this.saveDraft();
+    this.onChangeEmitter.fire();
+  }
+
+  setSubtitle(index: number, subtitle: string): void {
+    const step = this.steps[index];
+    if (step) {
+      this.steps[index] = { ...step, subtitle, draft: false };
+      this.saveDraft();
+      this.onChangeEmitter.fire();
+    }
+  }
+
+  // Stages the current selection(s) as extra anchors for the next captured step
+  async addAnchor(): Promise<boolean> {
     if (!this.recording) {
       return false;
     }
@@ -66,84 +497,125 @@ export class Recorder {
       return false;
     }
 
-    const doc = editor.document;
-    const selection = editor.selection;
-    const startLine = selection.start.line + 1;
-    const endLine = Math.max(startLine, selection.end.line + 1);
+    const anchors = await this.captureAnchors(editor);
+    if (anchors.length === 0) {
+      return false;
+    }
+
+    this.pendingAnchors.push(...anchors);
+    this.saveDraft();
+    this.onChangeEmitter.fire();
+    vscode.window.showInformationMessage(
+      `Anchor added (${this.pendingAnchors.length} pending). Capture a step to attach it.`
+    );
+    return true;
+  }
 
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
+  async captureStep(): Promise<boolean> {
+    if (!this.recording) {
       return false;
     }
 
-    const rootPath = workspaceFolders[0].uri.fsPath;
-    const relativePath = path.relative(rootPath, doc.uri.fsPath);
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showWarningMessage("No active editor to capture.");
+      return false;
+    }
 
-    const lineContent = doc.getText(
-      new vscode.Range(selection.start.line, 0, selection.end.line, doc.lineAt(selection.end.line).text.length)
-    );
-    const contentHash = crypto.createHash("sha256").update(lineContent).digest("hex").slice(0, 12);
+    const current = await this.captureAnchors(editor);
+    if (current.length === 0) {
+      return false;
+    }
 
-    const symbol = await this.findNearestSymbol(doc, selection.start.line);
+    const [primary, ...rest] = [...this.pendingAnchors, ...current];
+    const extraLabel = rest.length > 0 ? ` +${rest.length} more` : "";
 
     const subtitle = await vscode.window.showInputBox({
-      prompt: `Subtitle for step ${this.steps.length + 1} (${relativePath}:${startLine}-${endLine})`,
+      prompt: `Subtitle for step ${this.steps.length + 1} (${primary.file}:${primary.lines[0]}-${primary.lines[1]}${extraLabel})`,
       placeHolder: "Explain what this code does...",
     });
 
-    if (subtitle === undefined) {
+    // Recording may have been stopped, cancelled or moved on to review while the prompt was open
+    if (subtitle === undefined || !this.recording) {
       return false;
     }
 
     this.steps.push({
-      file: relativePath,
-      lines: [startLine, endLine],
-      symbol,
-      contentHash,
+      file: primary.file,
+      lines: primary.lines,
+      columns: primary.columns,
+      symbol: primary.symbol ?? "",
+      contentHash: primary.contentHash ?? "",
       subtitle: subtitle || "",
+      anchors: rest.length > 0 ? rest : undefined,
     });
+    this.pendingAnchors = [];
 
+    this.saveDraft();
     this.onChangeEmitter.fire();
     vscode.window.showInformationMessage(`Step ${this.steps.length} captured.`);
     return true;
   }
 
+  private async captureAnchors(editor: vscode.TextEditor): Promise<StepAnchor[]> {
+    this.home = this.home ?? getHomeFolder(editor.document.uri.fsPath);
+    return this.home ? captureSelectionAnchors(editor, this.home) : [];
+  }
+
   async stop(): Promise<vscode.Uri | null> {
-    if (!this.recording) {
+    if (!this.recording && !this.reviewing) {
       return null;
     }
 
+    this.stopWatchingNavigation();
     this.recording = false;
+    this.reviewing = false;
     this.onChangeEmitter.fire();
 
     if (this.steps.length === 0) {
+      this.discardDraft();
       vscode.window.showWarningMessage("No steps captured. Walkthrough discarded.");
       return null;
     }
 
-    return this.save();
+    // A cancelled save keeps the draft, so the recording can still be resumed
+    const uri = await this.save();
+    if (uri) {
+      this.discardDraft();
+    } else {
+      vscode.window.showWarningMessage(
+        "Walkthrough not saved. Use 'Walkthrough: Resume Unfinished Recording' to pick it up again."
+      );
+    }
+    return uri;
   }
 
   cancel(): void {
+    this.stopWatchingNavigation();
     this.recording = false;
+    this.reviewing = false;
     this.steps = [];
+    this.pendingAnchors = [];
+    this.home = undefined;
+    this.discardDraft();
     this.onChangeEmitter.fire();
   }
 
   removeLastStep(): void {
     if (this.steps.length > 0) {
       this.steps.pop();
+      this.saveDraft();
       this.onChangeEmitter.fire();
     }
   }
 
   private async save(): Promise<vscode.Uri | null> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
+    const home = this.home ?? getHomeFolder();
+    if (!home) {
       return null;
     }
 
-    const rootPath = workspaceFolders[0].uri.fsPath;
+    const rootPath = home.uri.fsPath;
     const walkthroughDir = path.join(rootPath, ".walkthrough");
 
     try {
@@ -151,77 +623,43 @@ export class Recorder {
     } catch {
     }
 
-    const slug = this.title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, "-")
-      .replace(/^-|-$/g, "");
-    const fileName = `${slug}.json`;
-    const filePath = path.join(walkthroughDir, fileName);
-    const uri = vscode.Uri.file(filePath);
+    const slug = walkthroughSlug(this.title);
+    const commitSha = await getHeadSha(rootPath);
 
-    const commitSha = await getHeadSha();
-
-    const walkthrough: Walkthrough = {
+    const recorded: Walkthrough = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       title: this.title,
       description: this.description,
       commitSha: commitSha ?? undefined,
       steps: this.steps.map((s): WalkthroughStep => ({
         file: s.file,
         lines: s.lines,
+        columns: s.columns,
         symbol: s.symbol || undefined,
         contentHash: s.contentHash,
         subtitle: s.subtitle,
         duration: 8,
+        anchors: s.anchors,
       })),
     };
 
-    const content = JSON.stringify(walkthrough, null, 2) + "\n";
-    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
-
-    vscode.window.showInformationMessage(`Walkthrough saved: .walkthrough/${fileName}`);
-    return uri;
-  }
-
-  private async findNearestSymbol(doc: vscode.TextDocument, line: number): Promise<string> {
-    try {
-      const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
-        "vscode.executeDocumentSymbolProvider",
-        doc.uri
-      );
-
-      if (!symbols || symbols.length === 0) {
-        return "";
-      }
-
-      return this.findClosestSymbol(symbols, line) ?? "";
-    } catch {
-      return "";
+    const target = await chooseSaveTarget(walkthroughDir, slug, recorded);
+    if (!target) {
+      return null;
     }
-  }
-
-  private findClosestSymbol(symbols: vscode.DocumentSymbol[], line: number): string | null {
-    let best: string | null = null;
-    let bestDistance = Infinity;
-
-    for (const sym of symbols) {
-      if (sym.range.start.line <= line && sym.range.end.line >= line) {
-        const distance = line - sym.range.start.line;
-        if (distance < bestDistance) {
-          bestDistance = distance;
-          best = sym.name;
-        }
 
-        const childResult = this.findClosestSymbol(sym.children, line);
-        if (childResult) {
-          return childResult;
-        }
-      }
-    }
+    const uri = vscode.Uri.file(target.filePath);
+    const content = serializeWalkthrough(target.filePath, target.walkthrough);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf-8"));
+    this.onSaveEmitter.fire(uri);
 
-    return best;
+    vscode.window.showInformationMessage(`Walkthrough saved: .walkthrough/${path.basename(target.filePath)}`);
+    return uri;
   }
 
   dispose(): void {
+    this.stopWatchingNavigation();
     this.onChangeEmitter.dispose();
+    this.onSaveEmitter.dispose();
   }
 }
@@ -0,0 +1,84 @@
+import * as vscode from "vscode";
+import { IndexedStep, StepIndex } from "../walkthrough/step-index";
+import { rewriteSubtitleLinks } from "../walkthrough/subtitle";
+import { toDocumentRange } from "../walkthrough/range";
+
+function isEnabled(): boolean {
+  return vscode.workspace.getConfiguration("codeWalkthrough").get<boolean>("codeLens.enabled", true);
+}
+
+function stepLabel(entry: IndexedStep): string {
+  return `${entry.file.walkthrough.title}, step ${entry.stepIndex + 1}`;
+}
+
+// Links inside a subtitle point at other steps and files relative to the walkthrough, which
+// means nothing outside playback, so only their text is kept
+function plainSubtitle(entry: IndexedStep): string {
+  return rewriteSubtitleLinks(entry.step.subtitle, (_link, text) => text);
+}
+
+// One lens per step above the first line of each anchor in the document
+export class WalkthroughCodeLensProvider implements vscode.CodeLensProvider {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.onDidChangeEmitter.event;
+  private readonly subscriptions: vscode.Disposable[];
+
+  constructor(private readonly index: StepIndex) {
+    this.subscriptions = [
+      index.onDidChange(() => this.onDidChangeEmitter.fire()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("codeWalkthrough.codeLens.enabled")) {
+          this.onDidChangeEmitter.fire();
+        }
+      }),
+    ];
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!isEnabled()) {
+      return [];
+    }
+    return this.index.forDocument(document.uri).map((entry) => {
+      const range = toDocumentRange(document, entry.anchor.lines, entry.anchor.columns);
+      return new vscode.CodeLens(new vscode.Range(range.start, range.start), {
+        title: `$(play) ${stepLabel(entry)}`,
+        tooltip: `Play from here: ${entry.step.subtitle}`,
+        command: "codeWalkthrough.playFileAtStep",
+        arguments: [entry.file, entry.stepIndex],
+      });
+    });
+  }
+
+  dispose(): void {
+    this.subscriptions.forEach((s) => s.dispose());
+    this.onDidChangeEmitter.dispose();
+  }
+}
+
+export class WalkthroughHoverProvider implements vscode.HoverProvider {
+  constructor(private readonly index: StepIndex) {}
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | null {
+    if (!isEnabled()) {
+      return null;
+    }
+    const entries = this.index.at(document.uri, position.line);
+    if (entries.length === 0) {
+      return null;
+    }
+
+    // Command links carry the walkthrough's path; the command looks the file up again
+    const sections = entries.map((entry) => {
+      const args = encodeURIComponent(JSON.stringify([entry.file.uri, entry.stepIndex]));
+      const subtitle = plainSubtitle(entry)
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+      return `**${stepLabel(entry)}** · [$(play) Play from here](command:codeWalkthrough.playFileAtStep?${args})\n\n${subtitle}`;
+    });
+
+    const markdown = new vscode.MarkdownString(sections.join("\n\n---\n\n"), true);
+    markdown.isTrusted = { enabledCommands: ["codeWalkthrough.playFileAtStep"] };
+    return new vscode.Hover(markdown);
+  }
+}
@@ -0,0 +1,76 @@
+import * as vscode from "vscode";
+import { StepIndex } from "../walkthrough/step-index";
+import { getCoveredRanges } from "../walkthrough/coverage";
+
+const GUTTER_ICON = vscode.Uri.parse(
+  `data:image/svg+xml;base64,${Buffer.from(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="5" y="0" width="3" height="16" fill="#4caf50"/></svg>'
+  ).toString("base64")}`
+);
+
+const COVERED_DECORATION = vscode.window.createTextEditorDecorationType({
+  gutterIconPath: GUTTER_ICON,
+  gutterIconSize: "contain",
+  isWholeLine: true,
+  overviewRulerColor: "rgba(76, 175, 80, 0.6)",
+  overviewRulerLane: vscode.OverviewRulerLane.Left,
+});
+
+// While coverage is shown, covered lines get a gutter bar and covered files an explorer badge
+export class CoverageDecorations implements vscode.FileDecorationProvider {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+  readonly onDidChangeFileDecorations = this.onDidChangeEmitter.event;
+  private readonly subscriptions: vscode.Disposable[];
+  private visible = false;
+
+  constructor(private readonly index: StepIndex) {
+    this.subscriptions = [
+      index.onDidChange(() => this.refresh()),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.decorateEditors()),
+    ];
+  }
+
+  toggle(): void {
+    this.visible = !this.visible;
+    this.refresh();
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (!this.visible) {
+      return undefined;
+    }
+    const entries = this.index.forDocument(uri);
+    if (entries.length === 0) {
+      return undefined;
+    }
+    const steps = new Set(entries.map((e) => `${e.file.uri}#${e.stepIndex}`)).size;
+    const titles = [...new Set(entries.map((e) => e.file.walkthrough.title))];
+    return {
+      badge: steps > 9 ? "9+" : String(steps),
+      tooltip: `Explained in ${steps} walkthrough step${steps !== 1 ? "s" : ""}: ${titles.join(", ")}`,
+    };
+  }
+
+  private refresh(): void {
+    this.onDidChangeEmitter.fire(undefined);
+    this.decorateEditors();
+  }
+
+  private decorateEditors(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (!this.visible) {
+        editor.setDecorations(COVERED_DECORATION, []);
+        continue;
+      }
+      const ranges = getCoveredRanges(this.index.forDocument(editor.document.uri), editor.document.lineCount)
+        .map(([start, end]) => new vscode.Range(start, 0, end, 0));
+      editor.setDecorations(COVERED_DECORATION, ranges);
+    }
+  }
+
+  dispose(): void {
+    this.subscriptions.forEach((s) => s.dispose());
+    this.onDidChangeEmitter.dispose();
+    COVERED_DECORATION.dispose();
+  }
+}
@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+
+// Fenced ```mermaid and ```dot blocks in subtitles are drawn as diagrams. The renderers run in
+// the browser, so esbuild.js copies their prebuilt scripts into dist/media and nothing is
+// fetched from a CDN.
+
+export type DiagramLanguage = "mermaid" | "dot";
+
+export const DIAGRAM_SCRIPTS: Record<DiagramLanguage, string> = {
+  mermaid: "mermaid.min.js",
+  dot: "viz-global.js",
+};
+
+const FENCE_LANGUAGES: Record<string, DiagramLanguage> = {
+  mermaid: "mermaid",
+  dot: "dot",
+  graphviz: "dot",
+};
+
+export function getDiagramMediaRoot(extensionUri: vscode.Uri): vscode.Uri {
+  return vscode.Uri.joinPath(extensionUri, "dist", "media");
+}
+
+export function toDiagramLanguage(fenceLanguage: string): DiagramLanguage | null {
+  return FENCE_LANGUAGES[fenceLanguage.toLowerCase()] ?? null;
+}
+
+export function findDiagramLanguages(markdown: string): DiagramLanguage[] {
+  const found = new Set<DiagramLanguage>();
+  for (const match of markdown.matchAll(/^\s*(?:```|~~~)\s*([\w-]+)\s*$/gm)) {
+    const language = toDiagramLanguage(match[1]);
+    if (language) {
+      found.add(language);
+    }
+  }
+  return [...found];
+}
+
+// The source stays visible as a code block until (or unless) the renderer replaces it
+export function renderDiagramFence(fenceLanguage: string, escapedCode: string): string | null {
+  const language = toDiagramLanguage(fenceLanguage);
+  if (!language) {
+    return null;
+  }
+  return `<pre class="diagram" data-diagram="${language}">${escapedCode}</pre>`;
+}
+
+export const DIAGRAM_STYLES = `
+    .diagram.rendered { white-space: normal; background: none; border: none; padding: 0; text-align: center; }
+    .diagram.rendered svg { max-width: 100%; height: auto; }
+    .diagram.failed { outline: 1px dashed rgba(244, 67, 54, 0.6); }`;
+
+// Runs in the page after the renderer scripts. `dark` forces a theme; null follows the VS Code theme.
+export function diagramBootstrapScript(dark: boolean | null): string {
+  const darkExpr = dark === null
+    ? `document.body.classList.contains("vscode-dark") || document.body.classList.contains("vscode-high-contrast")`
+    : String(dark);
+  return `
+(function () {
+  var dark = ${darkExpr};
+  function fail(el, err) {
+    el.classList.add("failed");
+    el.title = "Diagram error: " + (err && err.message ? err.message : String(err));
+  }
+  var mermaidBlocks = document.querySelectorAll('.diagram[data-diagram="mermaid"]');
+  if (mermaidBlocks.length && window.mermaid) {
+    window.mermaid.initialize({ startOnLoad: false, securityLevel: "strict", theme: dark ? "dark" : "default" });
+    mermaidBlocks.forEach(function (el, i) {
+      window.mermaid.render("walkthrough-diagram-" + i, el.textContent).then(function (result) {
+        el.innerHTML = result.svg;
+        el.classList.add("rendered");
+      }, function (err) { fail(el, err); });
+    });
+  }
+  var dotBlocks = document.querySelectorAll('.diagram[data-diagram="dot"]');
+  if (dotBlocks.length && window.Viz) {
+    window.Viz.instance().then(function (viz) {
+      dotBlocks.forEach(function (el) {
+        try {
+          var svg = viz.renderSVGElement(el.textContent);
+          el.textContent = "";
+          el.appendChild(svg);
+          el.classList.add("rendered");
+        } catch (err) { fail(el, err); }
+      });
+    });
+  }
+})();`;
+}
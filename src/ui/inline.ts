@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+import { PlaybackStatus } from "../player/engine";
+import { StaleCheckResult } from "../walkthrough/staleness";
+import { WalkthroughStep, findChapterForStep } from "../walkthrough/types";
+import { SubtitleLink, rewriteSubtitleLinks } from "../walkthrough/subtitle";
+
+export type SubtitlePresentation = "panel" | "inline";
+
+export const OPEN_LINK_COMMAND = "codeWalkthrough.openSubtitleLink";
+
+export function getSubtitlePresentation(): SubtitlePresentation {
+  return vscode.workspace
+    .getConfiguration("codeWalkthrough.subtitles")
+    .get<SubtitlePresentation>("presentation", "panel");
+}
+
+// Shows the current step's subtitle as a comment thread just above the highlighted range.
+// The thread's title bar carries the playback actions (see comments/commentThread/title in
+// package.json), so the reader never has to leave the editor.
+export class InlineSubtitles {
+  private readonly controller: vscode.CommentController;
+  private thread: vscode.CommentThread | null = null;
+
+  constructor() {
+    this.controller = vscode.comments.createCommentController("codeWalkthrough.inline", "Walkthrough");
+  }
+
+  // `uri` is the document the step's primary anchor is shown in
+  update(
+    status: PlaybackStatus,
+    step: WalkthroughStep,
+    uri: vscode.Uri,
+    staleResult?: StaleCheckResult
+  ): void {
+    // The widget opens below its range, so anchor it on the line before the highlight
+    const line = Math.max(0, step.lines[0] - 2);
+    const range = new vscode.Range(line, 0, line, 0);
+
+    if (
+      !this.thread ||
+      this.thread.uri.toString() !== uri.toString() ||
+      !this.thread.range?.isEqual(range)
+    ) {
+      this.clear();
+      this.thread = this.controller.createCommentThread(uri, range, []);
+      this.thread.canReply = false;
+    }
+
+    const chapter = status.walkthrough
+      ? findChapterForStep(status.walkthrough, status.currentIndex)
+      : null;
+    this.thread.label = status.walkthrough?.title ?? "Walkthrough";
+    this.thread.contextValue = status.state;
+    this.thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+    this.thread.comments = [
+      {
+        author: {
+          name: `Step ${status.currentIndex + 1} / ${status.totalSteps}${chapter ? ` · ${chapter.chapter.title}` : ""}`,
+        },
+        body: this.buildBody(step.subtitle, staleResult),
+        mode: vscode.CommentMode.Preview,
+      },
+    ];
+  }
+
+  clear(): void {
+    this.thread?.dispose();
+    this.thread = null;
+  }
+
+  private buildBody(subtitle: string, staleResult?: StaleCheckResult): vscode.MarkdownString {
+    const parts: string[] = [];
+    if (staleResult && staleResult.status !== "fresh") {
+      parts.push(`> $(warning) ${staleResult.detail ?? "Code may have changed"}`);
+    }
+    // Workspace links can't be followed from a comment directly; route them through a command
+    parts.push(
+      subtitle
+        ? rewriteSubtitleLinks(subtitle, (link, text) => `[${text}](${linkTarget(link)})`)
+        : "_No subtitle_"
+    );
+
+    const body = new vscode.MarkdownString(parts.join("\n\n"), true);
+    body.isTrusted = { enabledCommands: [OPEN_LINK_COMMAND] };
+    return body;
+  }
+
+  dispose(): void {
+    this.clear();
+    this.controller.dispose();
+  }
+}
+
+function linkTarget(link: SubtitleLink): string {
+  if (link.kind === "external") {
+    return link.url;
+  }
+  return `command:${OPEN_LINK_COMMAND}?${encodeURIComponent(JSON.stringify([link]))}`;
+}
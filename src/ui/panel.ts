@@ -1,9 +1,43 @@
 import * as vscode from "vscode";
 import { PlaybackStatus } from "../player/engine";
 import { StaleCheckResult } from "../walkthrough/staleness";
+import { ChapterRange, formatAnchorLocation, getChapterRanges, getStepAnchors } from "../walkthrough/types";
+import { SubtitleLink, describeSubtitleLink, renderSubtitleHtml } from "../walkthrough/subtitle";
+import { RecordedStep, RecordingMode } from "../recorder/recorder";
+import {
+  DIAGRAM_SCRIPTS,
+  DIAGRAM_STYLES,
+  diagramBootstrapScript,
+  findDiagramLanguages,
+  getDiagramMediaRoot,
+  renderDiagramFence,
+} from "./diagrams";
+
+const RECORDING_INSTRUCTIONS: Record<RecordingMode, string> = {
+  manual: `1. Navigate to code you want to explain<br>
+    2. Select the lines to highlight<br>
+    3. Press <kbd>Ctrl+Shift+.</kbd> or click <strong>Capture Step</strong><br>
+    4. Enter a subtitle explaining the code<br>
+    To show several locations in one step, click <strong>Add Anchor</strong> on each extra selection before capturing`,
+  auto: `Just read the code. A step is captured when you:<br>
+    &bull; keep a selection in place for a moment, or<br>
+    &bull; jump somewhere, e.g. with Go to Definition (the enclosing function is captured)<br>
+    Subtitles are filled in when you review the steps after stopping. <kbd>Ctrl+Shift+.</kbd> still captures a step with a subtitle right away`,
+  debug: `Debug your program as usual. Every time it stops, on a breakpoint or after a step,
+    the current line becomes a step with the function name as its symbol.<br>
+    Code outside the workspace is skipped. Subtitles are filled in when you review the steps after stopping`,
+};
+
+interface ReviewStepView {
+  location: string;
+  subtitle: string;
+  draft: boolean;
+}
 
 export class WalkthroughPanel {
   private panel: vscode.WebviewPanel | null = null;
+  // The review page is up and takes updates as messages
+  private showingReview = false;
   private readonly extensionUri: vscode.Uri;
 
   private readonly onCommandEmitter = new vscode.EventEmitter<string>();
@@ -19,7 +53,7 @@ export class WalkthroughPanel {
       return;
     }
 
-    this.panel = vscode.window.createWebviewPanel(
+    const created = vscode.window.createWebviewPanel(
       "codeWalkthrough",
       "Walkthrough",
       { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
@@ -28,10 +62,15 @@ export class WalkthroughPanel {
         retainContextWhenHidden: true,
       }
     );
+    this.panel = created;
+    this.showingReview = false;
 
-    this.panel.onDidDispose(() => {
-      this.panel = null;
-      this.onCommandEmitter.fire("stop");
+    // Only closing the panel by hand stops playback; hide() clears this.panel first
+    created.onDidDispose(() => {
+      if (this.panel === created) {
+        this.panel = null;
+        this.onCommandEmitter.fire("stop");
+      }
     });
 
     this.panel.webview.onDidReceiveMessage(
@@ -45,28 +84,53 @@ export class WalkthroughPanel {
     );
   }
 
-  update(status: PlaybackStatus, staleResults?: StaleCheckResult[]): void {
+  get viewColumn(): vscode.ViewColumn | undefined {
+    return this.panel?.viewColumn;
+  }
+
+  // `commitSha` is set when playback shows files as they were at that commit
+  update(status: PlaybackStatus, staleResults?: StaleCheckResult[], commitSha?: string): void {
     if (!this.panel) {
       return;
     }
-    this.panel.webview.html = this.buildPlaybackHtml(status, staleResults);
+    this.showingReview = false;
+    this.panel.webview.html = this.buildPlaybackHtml(status, staleResults, commitSha);
   }
 
-  updateRecording(stepCount: number): void {
+  updateRecording(stepCount: number, pendingAnchors = 0, mode: RecordingMode = "manual"): void {
     if (!this.panel) {
       return;
     }
-    this.panel.webview.html = this.buildRecordingHtml(stepCount);
+    this.showingReview = false;
+    this.panel.webview.html = this.buildRecordingHtml(stepCount, pendingAnchors, mode);
   }
 
-  hide(): void {
-    if (this.panel) {
-      this.panel.dispose();
-      this.panel = null;
+  // The review screen shown when an auto-capture recording stops. It is rendered once and then
+  // updated through messages, since replacing the page would take focus from the subtitle boxes.
+  updateReview(steps: readonly RecordedStep[]): void {
+    if (!this.panel) {
+      return;
+    }
+    const view = steps.map((step): ReviewStepView => ({
+      location: [step, ...(step.anchors ?? [])].map(formatAnchorLocation).join("  \u00B7  "),
+      subtitle: step.subtitle,
+      draft: !!step.draft,
+    }));
+    if (this.showingReview) {
+      this.panel.webview.postMessage({ type: "review", steps: view });
+      return;
     }
+    this.showingReview = true;
+    this.panel.webview.html = this.buildReviewHtml(view);
+  }
+
+  hide(): void {
+    const panel = this.panel;
+    this.panel = null;
+    panel?.dispose();
   }
 
-  private buildRecordingHtml(stepCount: number): string {
+  private buildRecordingHtml(stepCount: number, pendingAnchors: number, mode: RecordingMode): string {
     return /*html*/ `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -113,23 +177,21 @@ export class WalkthroughPanel {
   </style>
 </head>
 <body>
-  <div class="record-badge"><span class="record-dot"></span> Recording</div>
+  <div class="record-badge"><span class="record-dot"></span> ${mode === "debug" ? "Recording debug session" : mode === "auto" ? "Auto-capturing" : "Recording"}</div>
   <div class="header">
     <div class="title">Recording Walkthrough</div>
-    <div class="meta">${stepCount} step${stepCount !== 1 ? "s" : ""} captured</div>
+    <div class="meta">${stepCount} step${stepCount !== 1 ? "s" : ""} captured${pendingAnchors > 0 ? ` &middot; ${pendingAnchors} anchor${pendingAnchors !== 1 ? "s" : ""} pending for next step` : ""}</div>
   </div>
 
   <div class="record-instructions">
-    1. Navigate to code you want to explain<br>
-    2. Select the lines to highlight<br>
-    3. Press <kbd>Ctrl+Shift+.</kbd> or click <strong>Capture Step</strong><br>
-    4. Enter a subtitle explaining the code
+    ${RECORDING_INSTRUCTIONS[mode]}
   </div>
 
   <div class="record-actions">
     <button class="ctrl-btn" onclick="send('recordStep')">Capture Step</button>
+    <button class="ctrl-btn secondary" onclick="send('recordAnchor')">Add Anchor</button>
     <button class="ctrl-btn secondary" onclick="send('recordUndo')" ${stepCount === 0 ? "disabled" : ""}>Undo Last</button>
-    <button class="ctrl-btn" onclick="send('recordStop')" ${stepCount === 0 ? "disabled" : ""}>Save &amp; Finish</button>
+    <button class="ctrl-btn" onclick="send('recordStop')" ${stepCount === 0 ? "disabled" : ""}>${mode !== "manual" ? "Stop &amp; Review" : "Save &amp; Finish"}</button>
     <button class="ctrl-btn secondary" onclick="send('recordCancel')">Cancel</button>
   </div>
 
@@ -141,16 +203,150 @@ export class WalkthroughPanel {
 </html>`;
   }
 
+  private buildReviewHtml(steps: ReviewStepView[]): string {
+    // Embedded as a script literal; "<" is escaped so a subtitle can't close the script tag
+    const initial = JSON.stringify(steps).replace(/</g, "\\u003c");
+    return /*html*/ `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>${this.sharedStyles()}
+    .review-list { list-style: none; margin-bottom: 16px; }
+    .review-step {
+      padding: 8px 10px;
+      margin-bottom: 8px;
+      border-left: 2px solid var(--vscode-panel-border);
+    }
+    .review-step.draft { border-left-color: var(--vscode-editorWarning-foreground, #cca700); }
+    .review-head { display: flex; align-items: center; gap: 8px; margin-bottom: 6px; }
+    .review-location {
+      font-family: var(--vscode-editor-font-family, monospace);
+      font-size: 12px;
+      color: var(--vscode-textLink-foreground);
+      text-decoration: none;
+      overflow-wrap: anywhere;
+    }
+    .review-actions { margin-left: auto; display: flex; gap: 4px; white-space: nowrap; }
+    .review-actions .ctrl-btn { font-size: 11px; padding: 3px 8px; }
+    .review-step textarea {
+      width: 100%;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      border-radius: 2px;
+      padding: 4px 6px;
+      font-family: inherit;
+      font-size: 13px;
+      resize: vertical;
+    }
+    .record-actions { display: flex; gap: 8px; flex-wrap: wrap; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div class="title">Review Captured Steps</div>
+    <div class="meta" id="review-meta"></div>
+  </div>
+
+  <ul class="review-list" id="review-list"></ul>
+
+  <div class="record-actions">
+    <button class="ctrl-btn" id="review-save" onclick="send('recordStop')">Save Walkthrough</button>
+    <button class="ctrl-btn secondary" onclick="send('reviewContinue')">Keep Recording</button>
+    <button class="ctrl-btn secondary" onclick="send('recordCancel')">Discard</button>
+  </div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    function send(command) { vscode.postMessage({ command }); }
+    const list = document.getElementById('review-list');
+    const COMMANDS = { reveal: 'reviewReveal:', merge: 'reviewMerge:', remove: 'reviewRemove:' };
+
+    function createStep() {
+      const item = document.createElement('li');
+      item.className = 'review-step';
+      item.innerHTML =
+        '<div class="review-head">' +
+        '<a href="#" class="review-location" data-action="reveal"></a>' +
+        '<span class="review-actions">' +
+        '<button class="ctrl-btn secondary" data-action="merge" title="Show this location together with the previous step">Merge Up</button>' +
+        '<button class="ctrl-btn secondary" data-action="remove">Remove</button>' +
+        '</span></div>' +
+        '<textarea rows="3" placeholder="Explain what this code does..."></textarea>';
+      return item;
+    }
+
+    // Updates arrive as messages and are patched into the list, so the box being typed in
+    // keeps its focus and text when another step's subtitle is saved
+    function render(steps) {
+      const drafts = steps.filter((s) => s.draft).length;
+      document.getElementById('review-meta').innerHTML =
+        steps.length + ' step' + (steps.length !== 1 ? 's' : '') +
+        (drafts > 0 ? ' &middot; ' + drafts + ' still need' + (drafts === 1 ? 's' : '') + ' a subtitle' : '');
+      document.getElementById('review-save').disabled = steps.length === 0;
+
+      while (list.children.length > steps.length) {
+        list.lastElementChild.remove();
+      }
+      while (list.children.length < steps.length) {
+        list.appendChild(createStep());
+      }
+      steps.forEach((step, i) => {
+        const item = list.children[i];
+        item.classList.toggle('draft', step.draft);
+        item.querySelector('.review-location').textContent = (i + 1) + '. ' + step.location;
+        item.querySelector('[data-action="merge"]').disabled = i === 0;
+        const box = item.querySelector('textarea');
+        if (document.activeElement !== box && box.value !== step.subtitle) {
+          box.value = step.subtitle;
+        }
+      });
+    }
+
+    function stepIndex(el) {
+      return Array.from(list.children).indexOf(el.closest('.review-step'));
+    }
+
+    list.addEventListener('click', (e) => {
+      const target = e.target.closest('[data-action]');
+      if (target) {
+        e.preventDefault();
+        send(COMMANDS[target.dataset.action] + stepIndex(target));
+      }
+    });
+    // Subtitles are sent when a box loses focus
+    list.addEventListener('change', (e) => {
+      if (e.target.tagName === 'TEXTAREA') {
+        send('reviewSubtitle:' + JSON.stringify({ index: stepIndex(e.target), subtitle: e.target.value }));
+      }
+    });
+    window.addEventListener('message', (e) => {
+      if (e.data.type === 'review') {
+        render(e.data.steps);
+      }
+    });
+
+    render(${initial});
+  </script>
+</body>
+</html>`;
+  }
+
   private buildPlaybackHtml(
     status: PlaybackStatus,
-    staleResults?: StaleCheckResult[]
+    staleResults?: StaleCheckResult[],
+    commitSha?: string
   ): string {
     const step = status.currentStep;
     const walkthrough = status.walkthrough;
     const title = walkthrough?.title ?? "No Walkthrough";
     const subtitle = step?.subtitle ?? "";
+    const diagramScripts = this.diagramScripts(subtitle);
     const fileLabel = step
-      ? `${step.file}:${step.lines[0]}-${step.lines[1]}`
+      ? getStepAnchors(step)
+          .map(formatAnchorLocation)
+          .join("  \u00B7  ")
       : "";
     const stepLabel =
       status.totalSteps > 0
@@ -183,6 +379,23 @@ export class WalkthroughPanel {
           </div>`
         : "";
 
+    const commitBannerHtml = commitSha
+      ? `<div class="commit-banner">Showing files as of commit <code>${escapeHtml(commitSha.slice(0, 7))}</code> (read-only)</div>`
+      : "";
+
+    const chapterStarts = new Map<number, ChapterRange>();
+    if (walkthrough) {
+      for (const range of getChapterRanges(walkthrough)) {
+        chapterStarts.set(range.start, range);
+      }
+    }
+    const chapterBannerHtml = status.chapter
+      ? `<div class="chapter-banner">
+          <span>Chapter: <strong>${escapeHtml(status.chapter.chapter.title)}</strong> (steps ${status.chapter.start + 1}-${status.chapter.end})</span>
+          <button class="ctrl-btn secondary" onclick="send('clearChapter')">Show All</button>
+        </div>`
+      : "";
+
     const stepsHtml =
       walkthrough?.steps
         .map((s, i) => {
@@ -211,9 +424,13 @@ export class WalkthroughPanel {
                 : staleInfo?.status === "git-resolved"
                   ? ' <span class="stale-dot resolved" title="Resolved via git">\u2713</span>'
                   : "";
-          return `<li class="step-item ${activeClass} ${doneClass} ${staleClass}" onclick="goTo(${i})">
+          const chapterStart = chapterStarts.get(i);
+          const headerHtml = chapterStart
+            ? `<li class="chapter-header" onclick="send('playChapter:${chapterStart.chapterIndex}')" title="Play only this chapter">${escapeHtml(chapterStart.chapter.title)}</li>\n`
+            : "";
+          return `${headerHtml}<li class="step-item ${activeClass} ${doneClass} ${staleClass}" onclick="goTo(${i})">
           <span class="step-icon">${icon}</span>
-          <span class="step-label">${i + 1}. ${escapeHtml(s.file)}:${s.lines[0]}${staleIcon}</span>
+          <span class="step-label">${i + 1}. ${escapeHtml(s.file)}:${s.lines[0]}${s.anchors?.length ? ` <span class="anchor-count">+${s.anchors.length}</span>` : ""}${staleIcon}</span>
         </li>`;
         })
         .join("\n") ?? "";
@@ -230,7 +447,7 @@ export class WalkthroughPanel {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <style>${this.sharedStyles()}
+  <style>${this.sharedStyles()}${DIAGRAM_STYLES}
     .speed-select {
       background: var(--vscode-dropdown-background);
       color: var(--vscode-dropdown-foreground);
@@ -283,6 +500,34 @@ export class WalkthroughPanel {
     .step-item.drifted { border-left: 2px solid rgba(255, 193, 7, 0.6); }
     .step-item.missing-file { border-left: 2px solid rgba(244, 67, 54, 0.6); opacity: 0.5; }
     .step-item.git-resolved { border-left: 2px solid rgba(76, 175, 80, 0.6); }
+    .anchor-count { font-size: 10px; opacity: 0.6; }
+    .chapter-header {
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.04em;
+      opacity: 0.7;
+      padding: 10px 8px 4px;
+      cursor: pointer;
+    }
+    .chapter-header:hover { opacity: 1; }
+    .chapter-banner {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      font-size: 12px;
+      margin-bottom: 12px;
+    }
+    .chapter-banner .ctrl-btn { font-size: 11px; padding: 3px 8px; }
+    .commit-banner {
+      font-size: 12px;
+      padding: 6px 10px;
+      margin-bottom: 12px;
+      border-radius: 4px;
+      background: var(--vscode-textBlockQuote-background, rgba(255,255,255,0.05));
+    }
+    .commit-banner code { font-family: var(--vscode-editor-font-family, monospace); }
     .shortcuts-hint {
       font-size: 11px;
       opacity: 0.5;
@@ -318,9 +563,11 @@ export class WalkthroughPanel {
     <span class="step-counter">${stepLabel}</span>
   </div>
 
+  ${chapterBannerHtml}
+  ${commitBannerHtml}
   ${staleWarningHtml}
   <div class="file-label">${escapeHtml(fileLabel)}</div>
-  <div class="subtitle-box">${escapeHtml(subtitle) || "<em>No subtitle</em>"}</div>
+  <div class="subtitle-box">${subtitle ? renderSubtitleHtml(subtitle, { renderLink, renderFence: renderDiagramFence }) : "<em>No subtitle</em>"}</div>
 
   <ul class="steps-list">
     ${stepsHtml}
@@ -334,11 +581,35 @@ export class WalkthroughPanel {
     const vscode = acquireVsCodeApi();
     function send(command) { vscode.postMessage({ command }); }
     function goTo(index) { vscode.postMessage({ command: 'goTo', index }); }
+    document.addEventListener('click', (e) => {
+      const link = e.target.closest('a[data-link]');
+      if (link) {
+        e.preventDefault();
+        send('openLink:' + link.dataset.link);
+      }
+    });
   </script>
+  ${diagramScripts}
 </body>
 </html>`;
   }
 
+  // Renderer scripts are only loaded for steps that actually contain diagrams
+  private diagramScripts(subtitle: string): string {
+    const languages = findDiagramLanguages(subtitle);
+    if (!this.panel || languages.length === 0) {
+      return "";
+    }
+    const webview = this.panel.webview;
+    const mediaRoot = getDiagramMediaRoot(this.extensionUri);
+    const scripts = languages.map((language) => {
+      const src = webview.asWebviewUri(vscode.Uri.joinPath(mediaRoot, DIAGRAM_SCRIPTS[language]));
+      return `<script src="${src}"></script>`;
+    });
+    return `${scripts.join("\n  ")}
+  <script>${diagramBootstrapScript(null)}</script>`;
+  }
+
   private sharedStyles(): string {
     return `
     * { margin: 0; padding: 0; box-sizing: border-box; }
@@ -402,6 +673,21 @@ export class WalkthroughPanel {
       font-size: 13px;
       line-height: 1.6;
     }
+    .subtitle-box p, .subtitle-box ul, .subtitle-box ol, .subtitle-box pre, .subtitle-box blockquote { margin-bottom: 8px; }
+    .subtitle-box > :last-child { margin-bottom: 0; }
+    .subtitle-box ul, .subtitle-box ol { padding-left: 20px; }
+    .subtitle-box h4, .subtitle-box h5, .subtitle-box h6 { font-size: 13px; margin-bottom: 4px; }
+    .subtitle-box code {
+      font-family: var(--vscode-editor-font-family, monospace);
+      background: var(--vscode-textCodeBlock-background, rgba(255,255,255,0.08));
+      padding: 1px 4px;
+      border-radius: 3px;
+    }
+    .subtitle-box pre { background: var(--vscode-textCodeBlock-background, rgba(255,255,255,0.08)); padding: 8px; border-radius: 4px; overflow-x: auto; }
+    .subtitle-box pre code { background: none; padding: 0; }
+    .subtitle-box blockquote { border-left: 2px solid var(--vscode-panel-border); padding-left: 8px; opacity: 0.85; }
+    .subtitle-box a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+    .subtitle-box a:hover { color: var(--vscode-textLink-activeForeground); text-decoration: underline; }
     .file-label {
       font-family: var(--vscode-editor-font-family, monospace);
       font-size: 11px;
@@ -436,3 +722,8 @@ function escapeHtml(text: string): string {
     .replace(/>/g, "&gt;")
     .replace(/"/g, "&quot;");
 }
+
+// Links are followed by the extension, so the webview only carries the parsed target
+function renderLink(link: SubtitleLink, label: string): string {
+  return `<a href="#" data-link="${escapeHtml(JSON.stringify(link))}" title="${escapeHtml(describeSubtitleLink(link))}">${label}</a>`;
+}
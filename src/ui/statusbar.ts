@@ -1,9 +1,13 @@
 import * as vscode from "vscode";
+import { SubtitlePresentation } from "./inline";
 
 export class StatusBarController {
   private playbackItem: vscode.StatusBarItem;
   private recordItem: vscode.StatusBarItem;
   private speedItem: vscode.StatusBarItem;
+  private presentationItem: vscode.StatusBarItem;
+  // Edit mode runs alongside playback, so this item is not part of hideAll
+  private editItem: vscode.StatusBarItem;
 
   constructor() {
     this.playbackItem = vscode.window.createStatusBarItem(
@@ -23,13 +27,26 @@ export class StatusBarController {
       98
     );
     this.speedItem.command = "codeWalkthrough.cycleSpeed";
+
+    this.presentationItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      97
+    );
+    this.presentationItem.command = "codeWalkthrough.togglePresentation";
+
+    this.editItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      96
+    );
+    this.editItem.command = "codeWalkthrough.editSave";
   }
 
   showPlayback(
     state: "playing" | "paused",
     stepIndex: number,
     totalSteps: number,
-    speed: number
+    speed: number,
+    presentation: SubtitlePresentation
   ): void {
     const icon = state === "playing" ? "$(debug-pause)" : "$(play)";
     const stateLabel = state === "playing" ? "Playing" : "Paused";
@@ -41,6 +58,12 @@ export class StatusBarController {
     this.speedItem.tooltip = "Click to cycle speed";
     this.speedItem.show();
 
+    this.presentationItem.text = presentation === "inline" ? "$(comment) Inline" : "$(window) Panel";
+    this.presentationItem.tooltip = presentation === "inline"
+      ? "Subtitles are shown in the editor. Click to use the side panel"
+      : "Subtitles are shown in the side panel. Click to show them in the editor";
+    this.presentationItem.show();
+
     this.recordItem.hide();
   }
 
@@ -54,17 +77,31 @@ export class StatusBarController {
 
     this.playbackItem.hide();
     this.speedItem.hide();
+    this.presentationItem.hide();
+  }
+
+  showEditing(title: string, dirty: boolean): void {
+    this.editItem.text = `$(edit) Editing: ${title}${dirty ? " ●" : ""}`;
+    this.editItem.tooltip = dirty ? "Unsaved changes. Click to save" : "No unsaved changes";
+    this.editItem.show();
+  }
+
+  hideEditing(): void {
+    this.editItem.hide();
   }
 
   hideAll(): void {
     this.playbackItem.hide();
     this.recordItem.hide();
     this.speedItem.hide();
+    this.presentationItem.hide();
   }
 
   dispose(): void {
     this.playbackItem.dispose();
     this.recordItem.dispose();
     this.speedItem.dispose();
+    this.presentationItem.dispose();
+    this.editItem.dispose();
   }
 }
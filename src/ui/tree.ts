@@ -1,17 +1,95 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { discoverWalkthroughs } from "../walkthrough/loader";
-import { WalkthroughFile, WalkthroughStep } from "../walkthrough/types";
+import {
+  LearningPathFile,
+  PathEntryStatus,
+  discoverLearningPaths,
+  getWalkthroughId,
+  resolveLearningPath,
+} from "../walkthrough/paths";
+import { ProgressStore, WalkthroughProgress, formatTimeSpent } from "../player/progress";
+import {
+  ChapterRange,
+  Walkthrough,
+  WalkthroughFile,
+  WalkthroughStep,
+  formatAnchorLocation,
+  getChapterRanges,
+} from "../walkthrough/types";
 
-type TreeItem = WalkthroughTreeItem | StepTreeItem;
+type TreeItem = LearningPathTreeItem | WalkthroughTreeItem | ChapterTreeItem | StepTreeItem;
+
+const STEP_MIME_TYPE = "application/vnd.code.tree.codewalkthrough.explorer";
+
+// A walkthrough open in edit mode: the sidebar shows the working copy instead of the file
+interface WalkthroughDraft {
+  walkthrough: Walkthrough;
+  dirty: boolean;
+}
+
+export interface StepMove {
+  // Walkthrough file path
+  uri: string;
+  from: number;
+  to: number;
+}
+
+class LearningPathTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly pathFile: LearningPathFile,
+    public readonly entries: PathEntryStatus[]
+  ) {
+    super(pathFile.path.title, vscode.TreeItemCollapsibleState.Expanded);
+    const done = entries.filter((e) => e.completed).length;
+    this.description = `${done}/${entries.length} completed`;
+    this.tooltip = pathFile.path.description ?? pathFile.path.title;
+    this.iconPath = new vscode.ThemeIcon("mortar-board");
+    this.contextValue = "learningPath";
+  }
+}
 
 class WalkthroughTreeItem extends vscode.TreeItem {
-  constructor(public readonly file: WalkthroughFile) {
-    super(file.walkthrough.title, vscode.TreeItemCollapsibleState.Expanded);
-    this.description = `${file.walkthrough.steps.length} steps`;
+  constructor(
+    public readonly file: WalkthroughFile,
+    public readonly progress: WalkthroughProgress | undefined,
+    pathStatus?: PathEntryStatus,
+    draft?: WalkthroughDraft
+  ) {
+    super(
+      file.walkthrough.title,
+      pathStatus ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded
+    );
+    const total = file.walkthrough.steps.length;
+    this.description = `${total} steps${file.readOnly ? " · CodeTour" : ""}`;
+    // Walkthroughs are discovered in every folder, so say which one when there are several
+    if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file.uri));
+      if (folder) {
+        this.description += ` · ${folder.name}`;
+      }
+    }
     this.tooltip = file.walkthrough.description;
-    this.iconPath = new vscode.ThemeIcon("book");
-    this.contextValue = "walkthrough";
+    this.iconPath = new vscode.ThemeIcon(file.readOnly ? "compass" : "book");
+    if (progress?.completed) {
+      this.description += " · ✓ completed";
+      this.iconPath = new vscode.ThemeIcon("pass-filled", new vscode.ThemeColor("testing.iconPassed"));
+    } else if (pathStatus && pathStatus.pending.length > 0) {
+      this.description += ` · after ${pathStatus.pending.join(", ")}`;
+      this.iconPath = new vscode.ThemeIcon("lock");
+    } else if (progress?.lastStep !== undefined) {
+      this.description += ` · at step ${Math.min(progress.lastStep + 1, total)}`;
+    }
+    if (progress?.timeSpent) {
+      this.tooltip += `\n\nTime spent: ${formatTimeSpent(progress.timeSpent)}`;
+    }
+    this.contextValue = file.readOnly ? "tour" : "walkthrough";
+    if (draft) {
+      this.description += draft.dirty ? " · editing ●" : " · editing";
+      this.iconPath = new vscode.ThemeIcon("edit");
+      this.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+      this.contextValue = "editingWalkthrough";
+    }
     this.command = {
       command: "codeWalkthrough.playFile",
       title: "Play Walkthrough",
@@ -20,11 +98,32 @@ class WalkthroughTreeItem extends vscode.TreeItem {
   }
 }
 
+class ChapterTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly range: ChapterRange,
+    public readonly file: WalkthroughFile
+  ) {
+    super(range.chapter.title, vscode.TreeItemCollapsibleState.Collapsed);
+    const count = range.end - range.start;
+    this.description = `${count} step${count !== 1 ? "s" : ""}`;
+    this.tooltip = range.chapter.description ?? range.chapter.title;
+    this.iconPath = new vscode.ThemeIcon("list-tree");
+    this.contextValue = "chapter";
+    this.command = {
+      command: "codeWalkthrough.playChapter",
+      title: "Play Chapter",
+      arguments: [file, range.chapterIndex],
+    };
+  }
+}
+
 class StepTreeItem extends vscode.TreeItem {
   constructor(
     public readonly step: WalkthroughStep,
     public readonly stepIndex: number,
-    public readonly file: WalkthroughFile
+    public readonly file: WalkthroughFile,
+    visited: boolean,
+    editing = false
   ) {
     super(
       `${stepIndex + 1}. ${path.basename(step.file)}:${step.lines[0]}`,
@@ -33,9 +132,14 @@ class StepTreeItem extends vscode.TreeItem {
     this.description = step.subtitle.length > 50
       ? step.subtitle.slice(0, 50) + "..."
       : step.subtitle;
-    this.tooltip = step.subtitle;
-    this.iconPath = new vscode.ThemeIcon("debug-stackframe");
-    this.contextValue = "step";
+    const extraAnchors = step.anchors ?? [];
+    this.tooltip = extraAnchors.length > 0
+      ? `${step.subtitle}\n\nAlso: ${extraAnchors.map(formatAnchorLocation).join(", ")}`
+      : step.subtitle;
+    this.iconPath = visited
+      ? new vscode.ThemeIcon("check", new vscode.ThemeColor("testing.iconPassed"))
+      : new vscode.ThemeIcon(extraAnchors.length > 0 ? "split-horizontal" : "debug-stackframe");
+    this.contextValue = editing ? "editingStep" : "step";
     this.command = {
       command: "codeWalkthrough.playFileAtStep",
       title: "Play From Step",
@@ -44,33 +148,160 @@ class StepTreeItem extends vscode.TreeItem {
   }
 }
 
-export class WalkthroughTreeProvider implements vscode.TreeDataProvider<TreeItem> {
+export class WalkthroughTreeProvider
+  implements vscode.TreeDataProvider<TreeItem>, vscode.TreeDragAndDropController<TreeItem>
+{
   private readonly onDidChangeEmitter = new vscode.EventEmitter<TreeItem | undefined>();
   readonly onDidChangeTreeData = this.onDidChangeEmitter.event;
 
+  // Steps can be dragged within a walkthrough that is being edited
+  readonly dragMimeTypes = [STEP_MIME_TYPE];
+  readonly dropMimeTypes = [STEP_MIME_TYPE];
+  private readonly onDidMoveStepEmitter = new vscode.EventEmitter<StepMove>();
+  readonly onDidMoveStep = this.onDidMoveStepEmitter.event;
+
   private walkthroughFiles: WalkthroughFile[] = [];
+  private learningPaths: LearningPathFile[] = [];
+  // Keyed by walkthrough file path
+  private readonly drafts = new Map<string, WalkthroughDraft>();
+
+  constructor(private readonly progress: ProgressStore) {}
+
+  get files(): WalkthroughFile[] {
+    return this.walkthroughFiles;
+  }
+
+  get paths(): LearningPathFile[] {
+    return this.learningPaths;
+  }
 
   async refresh(): Promise<void> {
     this.walkthroughFiles = await discoverWalkthroughs();
+    this.learningPaths = await discoverLearningPaths(this.walkthroughFiles);
+    this.onDidChangeEmitter.fire(undefined);
+  }
+
+  // Playback can start before the view has ever been expanded
+  async ensureLoaded(): Promise<void> {
+    if (this.walkthroughFiles.length === 0) {
+      await this.refresh();
+    }
+  }
+
+  // Re-renders with the cached files, e.g. after progress changes
+  redraw(): void {
     this.onDidChangeEmitter.fire(undefined);
   }
 
+  // Shows `walkthrough` in place of the file's contents until cleared with undefined
+  setDraft(uri: string, walkthrough: Walkthrough | undefined, dirty = false): void {
+    if (walkthrough) {
+      this.drafts.set(uri, { walkthrough, dirty });
+    } else {
+      this.drafts.delete(uri);
+    }
+    this.onDidChangeEmitter.fire(undefined);
+  }
+
+  private walkthroughItem(
+    file: WalkthroughFile,
+    progress: WalkthroughProgress | undefined,
+    pathStatus?: PathEntryStatus
+  ): WalkthroughTreeItem {
+    const draft = this.drafts.get(file.uri);
+    const shown = draft ? { ...file, walkthrough: draft.walkthrough } : file;
+    return new WalkthroughTreeItem(shown, progress, pathStatus, draft);
+  }
+
   getTreeItem(element: TreeItem): vscode.TreeItem {
     return element;
   }
 
+  handleDrag(source: readonly TreeItem[], dataTransfer: vscode.DataTransfer): void {
+    const step = source.find((item): item is StepTreeItem => item instanceof StepTreeItem);
+    if (!step || !this.drafts.has(step.file.uri)) {
+      return;
+    }
+    dataTransfer.set(
+      STEP_MIME_TYPE,
+      new vscode.DataTransferItem(JSON.stringify({ uri: step.file.uri, index: step.stepIndex }))
+    );
+  }
+
+  // Dropping on a step puts the dragged step in its place, on a chapter at the chapter's start,
+  // and on the walkthrough itself at the end
+  async handleDrop(target: TreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const item = dataTransfer.get(STEP_MIME_TYPE);
+    if (!item || !target || target instanceof LearningPathTreeItem) {
+      return;
+    }
+    const dragged = JSON.parse(await item.asString()) as { uri: string; index: number };
+    if (dragged.uri !== target.file.uri) {
+      return;
+    }
+
+    let to: number;
+    if (target instanceof StepTreeItem) {
+      to = target.stepIndex;
+    } else if (target instanceof ChapterTreeItem) {
+      to = target.range.start;
+    } else {
+      to = target.file.walkthrough.steps.length - 1;
+    }
+    if (to !== dragged.index) {
+      this.onDidMoveStepEmitter.fire({ uri: dragged.uri, from: dragged.index, to });
+    }
+  }
+
   async getChildren(element?: TreeItem): Promise<TreeItem[]> {
     if (!element) {
-      if (this.walkthroughFiles.length === 0) {
-        await this.refresh();
-      }
-      return this.walkthroughFiles.map((f) => new WalkthroughTreeItem(f));
+      await this.ensureLoaded();
+      // Walkthroughs that belong to a learning path are listed under it rather than at the top level
+      const isCompleted = (id: string) => this.progress.isCompleted(id);
+      const grouped = new Set<string>();
+      const pathItems = this.learningPaths.map((p) => {
+        const entries = resolveLearningPath(p.path, this.walkthroughFiles, isCompleted);
+        entries.forEach((e) => grouped.add(e.entry.walkthrough));
+        return new LearningPathTreeItem(p, entries);
+      });
+      const standalone = this.walkthroughFiles
+        .filter((f) => !grouped.has(getWalkthroughId(f.uri)))
+        .map((f) => this.walkthroughItem(f, this.progress.get(getWalkthroughId(f.uri))));
+      return [...pathItems, ...standalone];
+    }
+
+    if (element instanceof LearningPathTreeItem) {
+      return element.entries
+        .filter((e) => e.file !== null)
+        .map((e) => this.walkthroughItem(e.file as WalkthroughFile, this.progress.get(e.entry.walkthrough), e));
     }
 
     if (element instanceof WalkthroughTreeItem) {
-      return element.file.walkthrough.steps.map(
-        (step, i) => new StepTreeItem(step, i, element.file)
-      );
+      const file = element.file;
+      const steps = file.walkthrough.steps;
+      const visited = new Set(element.progress?.visitedSteps ?? []);
+      const editing = this.drafts.has(file.uri);
+      const chapters = getChapterRanges(file.walkthrough);
+      if (chapters.length === 0) {
+        return steps.map((step, i) => new StepTreeItem(step, i, file, visited.has(i), editing));
+      }
+
+      // Steps before the first chapter stay at the top level as a prologue
+      const prologue = steps
+        .slice(0, chapters[0].start)
+        .map((step, i) => new StepTreeItem(step, i, file, visited.has(i), editing));
+      return [...prologue, ...chapters.map((range) => new ChapterTreeItem(range, file))];
+    }
+
+    if (element instanceof ChapterTreeItem) {
+      const { start, end } = element.range;
+      const visited = new Set(this.progress.get(getWalkthroughId(element.file.uri))?.visitedSteps ?? []);
+      return element.file.walkthrough.steps
+        .slice(start, end)
+        .map(
+          (step, i) =>
+            new StepTreeItem(step, start + i, element.file, visited.has(start + i), this.drafts.has(element.file.uri))
+        );
     }
 
     return [];
@@ -78,5 +309,6 @@ export class WalkthroughTreeProvider implements vscode.TreeDataProvider<TreeItem
 
   dispose(): void {
     this.onDidChangeEmitter.dispose();
+    this.onDidMoveStepEmitter.dispose();
   }
 }
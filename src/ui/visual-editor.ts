@@ -0,0 +1,585 @@
+import * as vscode from "vscode";
+import { WalkthroughTextChange, editWalkthroughText, readWalkthroughText } from "../walkthrough/loader";
+import { checkStaleness } from "../walkthrough/staleness";
+import { Walkthrough, WalkthroughStep, formatAnchorLocation, getStepAnchors } from "../walkthrough/types";
+import { SubtitleLink, describeSubtitleLink, renderSubtitleHtml } from "../walkthrough/subtitle";
+import { getHomeFolder, resolveStepFile } from "../walkthrough/workspace";
+import { navigateToStep } from "../player/highlight";
+import { OPEN_LINK_COMMAND } from "./inline";
+
+// A form-style editor for walkthrough files, opened with `Walkthrough: Open in Visual Editor` or
+// "Reopen Editor With...". It never keeps its own copy of the walkthrough: every change is
+// written into the text document, so undo/redo, dirty state, and git diffs behave exactly as
+// they do in the text editor, and edits made in the text editor show up here. Only the edited
+// value is rewritten; the rest of the file keeps its formatting and format version.
+
+// Matches the engine's fallback for steps without a duration
+const DEFAULT_DURATION = 8;
+const MAX_PREVIEW_LINES = 12;
+
+type EditorMessage =
+  | { type: "editField"; field: "title" | "description"; value: string }
+  | { type: "editSubtitle"; index: number; value: string }
+  | { type: "editDuration"; index: number; value: number | null }
+  | { type: "moveStep"; index: number; to: number }
+  | { type: "deleteStep"; index: number }
+  | { type: "reveal"; index: number }
+  | { type: "openLink"; link: SubtitleLink }
+  | { type: "openAsText" }
+  | { type: "checkStaleness" };
+
+interface AnchorView {
+  location: string;
+  // Null when the file can't be read
+  code: string | null;
+  moreLines: number;
+}
+
+interface StepView {
+  anchors: AnchorView[];
+  subtitle: string;
+  subtitleHtml: string;
+  duration?: number;
+}
+
+export class WalkthroughVisualEditorProvider implements vscode.CustomTextEditorProvider {
+  static readonly viewType = "codeWalkthrough.visualEditor";
+
+  async resolveCustomTextEditor(
+    document: vscode.TextDocument,
+    webviewPanel: vscode.WebviewPanel
+  ): Promise<void> {
+    const webview = webviewPanel.webview;
+    webview.options = { enableScripts: true };
+    webview.html = buildEditorHtml();
+
+    const home = getHomeFolder(document.uri.fsPath);
+    // Edits are applied one at a time, each against the document as the previous one left it
+    let edits = Promise.resolve();
+    let checkedAnchors: string | undefined;
+    // Previews load asynchronously; only the latest update gets posted
+    let updateVersion = 0;
+
+    const update = async () => {
+      const version = ++updateVersion;
+      const parsed = readWalkthroughText(document.uri.fsPath, document.getText());
+      if ("error" in parsed) {
+        webview.postMessage({ type: "update", error: parsed.error });
+        return;
+      }
+
+      const walkthrough = parsed.walkthrough;
+      const steps = await Promise.all(walkthrough.steps.map((step) => buildStepView(step, home)));
+      if (version !== updateVersion) {
+        return;
+      }
+      webview.postMessage({
+        type: "update",
+        title: walkthrough.title,
+        description: walkthrough.description,
+        commitSha: walkthrough.commitSha,
+        defaultDuration: DEFAULT_DURATION,
+        steps,
+      });
+
+      // Staleness shells out to git, so only re-check when a step's location changed
+      const anchors = JSON.stringify(walkthrough.steps.map(getStepAnchors));
+      if (anchors !== checkedAnchors) {
+        checkedAnchors = anchors;
+        postStaleness(walkthrough);
+      }
+    };
+
+    const postStaleness = async (walkthrough: Walkthrough) => {
+      const results = await checkStaleness(walkthrough.steps, walkthrough.commitSha, home);
+      webview.postMessage({
+        type: "staleness",
+        results: results.map((r) => ({ status: r.status, detail: r.detail })),
+      });
+    };
+
+    const applyChange = (change: WalkthroughTextChange) => {
+      edits = edits.then(async () => {
+        const text = document.getText();
+        const parsed = readWalkthroughText(document.uri.fsPath, text);
+        if ("error" in parsed) {
+          return;
+        }
+        const updated = editWalkthroughText(document.uri.fsPath, text, parsed.walkthrough, change);
+        if (updated === text) {
+          return;
+        }
+        const { start, end, replacement } = findChangedRange(text, updated);
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+          document.uri,
+          new vscode.Range(document.positionAt(start), document.positionAt(end)),
+          replacement
+        );
+        await vscode.workspace.applyEdit(edit);
+      });
+    };
+
+    const changeSubscription = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.document.uri.toString() === document.uri.toString() && e.contentChanges.length > 0) {
+        update();
+      }
+    });
+    webviewPanel.onDidDispose(() => changeSubscription.dispose());
+
+    webview.onDidReceiveMessage(async (msg: EditorMessage) => {
+      if (msg.type === "editField") {
+        applyChange({ type: "field", field: msg.field, value: msg.value });
+      } else if (msg.type === "editSubtitle") {
+        applyChange({ type: "subtitle", index: msg.index, value: msg.value });
+      } else if (msg.type === "editDuration") {
+        applyChange({ type: "duration", index: msg.index, value: msg.value });
+      } else if (msg.type === "moveStep") {
+        applyChange({ type: "move", index: msg.index, to: msg.to });
+      } else if (msg.type === "deleteStep") {
+        const parsed = readWalkthroughText(document.uri.fsPath, document.getText());
+        if ("error" in parsed || parsed.walkthrough.steps.length <= 1) {
+          vscode.window.showWarningMessage("A walkthrough needs at least one step.");
+          return;
+        }
+        applyChange({ type: "delete", index: msg.index });
+      } else if (msg.type === "reveal") {
+        const parsed = readWalkthroughText(document.uri.fsPath, document.getText());
+        const step = "error" in parsed ? undefined : parsed.walkthrough.steps[msg.index];
+        if (step) {
+          await navigateToStep(step, webviewPanel.viewColumn, undefined, home);
+        }
+      } else if (msg.type === "openLink") {
+        await vscode.commands.executeCommand(OPEN_LINK_COMMAND, msg.link);
+      } else if (msg.type === "openAsText") {
+        await vscode.commands.executeCommand("vscode.openWith", document.uri, "default");
+      } else if (msg.type === "checkStaleness") {
+        const parsed = readWalkthroughText(document.uri.fsPath, document.getText());
+        if (!("error" in parsed)) {
+          postStaleness(parsed.walkthrough);
+        }
+      }
+    });
+
+    await update();
+  }
+}
+
+// The smallest replacement that turns `before` into `after`, so the edit doesn't move the cursor
+// or folding of a text editor open on the same document
+function findChangedRange(before: string, after: string): { start: number; end: number; replacement: string } {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let common = 0;
+  while (
+    common < before.length - start &&
+    common < after.length - start &&
+    before[before.length - 1 - common] === after[after.length - 1 - common]
+  ) {
+    common++;
+  }
+  return { start, end: before.length - common, replacement: after.slice(start, after.length - common) };
+}
+
+async function buildStepView(step: WalkthroughStep, home: vscode.WorkspaceFolder | undefined): Promise<StepView> {
+  const anchors = await Promise.all(
+    getStepAnchors(step).map(async (anchor): Promise<AnchorView> => {
+      const location = formatAnchorLocation(anchor);
+      const filePath = resolveStepFile(anchor.file, home);
+      if (!filePath) {
+        return { location, code: null, moreLines: 0 };
+      }
+      try {
+        const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        const start = Math.max(0, anchor.lines[0] - 1);
+        const end = Math.min(doc.lineCount - 1, anchor.lines[1] - 1);
+        const shownEnd = Math.min(end, start + MAX_PREVIEW_LINES - 1);
+        if (start > end) {
+          return { location, code: null, moreLines: 0 };
+        }
+        const code = doc.getText(new vscode.Range(start, 0, shownEnd, doc.lineAt(shownEnd).text.length));
+        return { location, code, moreLines: end - shownEnd };
+      } catch {
+        return { location, code: null, moreLines: 0 };
+      }
+    })
+  );
+
+  return {
+    anchors,
+    subtitle: step.subtitle,
+    subtitleHtml: renderSubtitleHtml(step.subtitle, { renderLink }),
+    duration: step.duration,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Links are followed by the extension, so the webview only carries the parsed target
+function renderLink(link: SubtitleLink, label: string): string {
+  return `<a href="#" data-link="${escapeHtml(JSON.stringify(link))}" title="${escapeHtml(describeSubtitleLink(link))}">${label}</a>`;
+}
+
+// The page is built once; the script fills it in from "update" messages and patches it in place
+// so typing in a field isn't interrupted when the document change comes back around
+function buildEditorHtml(): string {
+  return /*html*/ `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    * { box-sizing: border-box; }
+    body {
+      font-family: var(--vscode-font-family, sans-serif);
+      color: var(--vscode-foreground);
+      background: var(--vscode-editor-background);
+      padding: 16px 24px;
+      line-height: 1.5;
+      max-width: 1100px;
+    }
+    input[type="text"], textarea {
+      width: 100%;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      border-radius: 2px;
+      padding: 4px 6px;
+      font-family: inherit;
+      font-size: 13px;
+    }
+    input[type="text"]:focus, textarea:focus { outline: 1px solid var(--vscode-focusBorder); }
+    textarea { resize: vertical; min-height: 96px; font-family: var(--vscode-editor-font-family, monospace); }
+    .field-label { font-size: 11px; text-transform: uppercase; letter-spacing: 0.04em; opacity: 0.7; margin: 12px 0 4px; }
+    #title { font-size: 16px; font-weight: 600; }
+    .toolbar { display: flex; align-items: center; gap: 12px; margin: 16px 0 8px; font-size: 12px; }
+    .toolbar .meta { opacity: 0.7; }
+    .toolbar code { font-family: var(--vscode-editor-font-family, monospace); }
+    button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      border-radius: 2px;
+      padding: 3px 8px;
+      font-size: 12px;
+      cursor: pointer;
+    }
+    button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    button:disabled { opacity: 0.4; cursor: not-allowed; }
+    #error {
+      padding: 12px;
+      border: 1px solid var(--vscode-inputValidation-errorBorder, #be1100);
+      background: var(--vscode-inputValidation-errorBackground, #5a1d1d);
+      border-radius: 4px;
+      margin-bottom: 12px;
+    }
+    .step-card {
+      border: 1px solid var(--vscode-panel-border);
+      border-left: 3px solid var(--vscode-panel-border);
+      border-radius: 4px;
+      padding: 10px 12px;
+      margin-bottom: 12px;
+    }
+    .step-card.drifted { border-left-color: rgba(255, 193, 7, 0.8); }
+    .step-card.missing { border-left-color: rgba(244, 67, 54, 0.8); }
+    .step-card.git-resolved { border-left-color: rgba(76, 175, 80, 0.8); }
+    .step-head { display: flex; align-items: center; gap: 8px; margin-bottom: 8px; }
+    .step-number { font-weight: 600; }
+    .step-actions { margin-left: auto; display: flex; gap: 4px; }
+    .stale-badge { font-size: 11px; padding: 0 6px; border-radius: 8px; }
+    .stale-badge.drifted { color: var(--vscode-editorWarning-foreground, #cca700); }
+    .stale-badge.missing { color: var(--vscode-errorForeground, #f48771); }
+    .stale-badge.git-resolved { color: var(--vscode-terminal-ansiGreen, #89d185); }
+    .anchor-location {
+      font-family: var(--vscode-editor-font-family, monospace);
+      font-size: 12px;
+      color: var(--vscode-textLink-foreground);
+      cursor: pointer;
+    }
+    .anchor-location:hover { text-decoration: underline; }
+    pre.code-preview {
+      font-family: var(--vscode-editor-font-family, monospace);
+      font-size: var(--vscode-editor-font-size, 12px);
+      background: var(--vscode-textCodeBlock-background, rgba(255,255,255,0.05));
+      padding: 6px 8px;
+      margin: 4px 0 8px;
+      border-radius: 3px;
+      overflow-x: auto;
+      white-space: pre;
+    }
+    .code-missing, .more-lines { font-size: 11px; opacity: 0.6; margin-bottom: 8px; }
+    .subtitle-row { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+    .subtitle-preview {
+      background: var(--vscode-textBlockQuote-background, rgba(255,255,255,0.05));
+      border-left: 3px solid var(--vscode-textLink-foreground, #3794ff);
+      padding: 6px 12px;
+      border-radius: 0 4px 4px 0;
+      font-size: 13px;
+      overflow-wrap: anywhere;
+    }
+    .subtitle-preview p, .subtitle-preview ul, .subtitle-preview ol, .subtitle-preview pre, .subtitle-preview blockquote { margin: 0 0 8px; }
+    .subtitle-preview ul, .subtitle-preview ol { padding-left: 20px; }
+    .subtitle-preview code {
+      font-family: var(--vscode-editor-font-family, monospace);
+      background: var(--vscode-textCodeBlock-background, rgba(255,255,255,0.08));
+      padding: 1px 4px;
+      border-radius: 3px;
+    }
+    .subtitle-preview a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+    .duration-row { display: flex; align-items: center; gap: 8px; margin-top: 8px; font-size: 12px; }
+    .duration-row input[type="range"] { flex: 0 1 240px; }
+    .duration-value { min-width: 80px; opacity: 0.8; }
+  </style>
+</head>
+<body>
+  <div id="error" hidden>
+    <div id="error-message"></div>
+    <p><button data-action="openAsText">Open in Text Editor</button></p>
+  </div>
+
+  <div id="content" hidden>
+    <div class="field-label">Title</div>
+    <input type="text" id="title">
+    <div class="field-label">Description</div>
+    <input type="text" id="description">
+
+    <div class="toolbar">
+      <span class="meta" id="summary"></span>
+      <button data-action="checkStaleness">Check Staleness</button>
+    </div>
+
+    <div id="steps"></div>
+  </div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    const stepsRoot = document.getElementById('steps');
+    const timers = {};
+    let state = null;
+    let stale = [];
+
+    function post(msg) { vscode.postMessage(msg); }
+    function later(key, fn) {
+      clearTimeout(timers[key] && timers[key].id);
+      timers[key] = { fn, id: setTimeout(() => { delete timers[key]; fn(); }, 300) };
+    }
+    // Sends the edits still waiting out their delay, e.g. before a move or delete changes which
+    // step their index points at
+    function flush() {
+      for (const key of Object.keys(timers)) {
+        const { fn, id } = timers[key];
+        clearTimeout(id);
+        delete timers[key];
+        fn();
+      }
+    }
+    function setValue(el, value) {
+      if (document.activeElement !== el && el.value !== String(value)) {
+        el.value = value;
+      }
+    }
+    function cardIndex(el) {
+      const card = el.closest('.step-card');
+      return card ? Number(card.dataset.index) : -1;
+    }
+
+    const STALE_LABELS = {
+      drifted: '⇄ drifted',
+      missing: '⚠ missing',
+      'git-resolved': '✓ moved, resolved via git',
+    };
+
+    window.addEventListener('message', (e) => {
+      const msg = e.data;
+      if (msg.type === 'update') {
+        state = msg;
+        render();
+      } else if (msg.type === 'staleness') {
+        stale = msg.results;
+        renderStaleness();
+      }
+    });
+
+    function render() {
+      const error = document.getElementById('error');
+      error.hidden = !state.error;
+      document.getElementById('content').hidden = !!state.error;
+      if (state.error) {
+        document.getElementById('error-message').textContent = state.error;
+        return;
+      }
+
+      setValue(document.getElementById('title'), state.title);
+      setValue(document.getElementById('description'), state.description);
+      document.getElementById('summary').innerHTML =
+        state.steps.length + ' step' + (state.steps.length !== 1 ? 's' : '') +
+        (state.commitSha ? ' &middot; recorded at <code></code>' : '');
+      if (state.commitSha) {
+        document.querySelector('#summary code').textContent = state.commitSha.slice(0, 7);
+      }
+
+      while (stepsRoot.children.length > state.steps.length) {
+        stepsRoot.lastElementChild.remove();
+      }
+      while (stepsRoot.children.length < state.steps.length) {
+        stepsRoot.appendChild(createCard());
+      }
+      state.steps.forEach((step, i) => fillCard(stepsRoot.children[i], step, i));
+      renderStaleness();
+    }
+
+    function createCard() {
+      const card = document.createElement('div');
+      card.className = 'step-card';
+      card.innerHTML =
+        '<div class="step-head">' +
+          '<span class="step-number"></span>' +
+          '<span class="stale-badge"></span>' +
+          '<span class="step-actions">' +
+            '<button data-action="up" title="Move up">↑</button>' +
+            '<button data-action="down" title="Move down">↓</button>' +
+            '<button data-action="delete" title="Delete step">✕</button>' +
+          '</span>' +
+        '</div>' +
+        '<div class="anchors"></div>' +
+        '<div class="subtitle-row">' +
+          '<textarea class="subtitle-input" placeholder="Subtitle (Markdown)"></textarea>' +
+          '<div class="subtitle-preview"></div>' +
+        '</div>' +
+        '<div class="duration-row">' +
+          '<span>Duration</span>' +
+          '<input type="range" class="duration-input" min="1" max="60" step="1">' +
+          '<span class="duration-value"></span>' +
+          '<button data-action="resetDuration">Default</button>' +
+        '</div>';
+      return card;
+    }
+
+    function fillCard(card, step, i) {
+      card.dataset.index = String(i);
+      card.querySelector('.step-number').textContent = 'Step ' + (i + 1);
+      card.querySelector('[data-action="up"]').disabled = i === 0;
+      card.querySelector('[data-action="down"]').disabled = i === state.steps.length - 1;
+
+      const anchors = card.querySelector('.anchors');
+      anchors.textContent = '';
+      for (const anchor of step.anchors) {
+        const location = document.createElement('div');
+        location.className = 'anchor-location';
+        location.dataset.action = 'reveal';
+        location.textContent = anchor.location;
+        anchors.appendChild(location);
+        if (anchor.code === null) {
+          const missing = document.createElement('div');
+          missing.className = 'code-missing';
+          missing.textContent = 'File or lines not found';
+          anchors.appendChild(missing);
+          continue;
+        }
+        const pre = document.createElement('pre');
+        pre.className = 'code-preview';
+        pre.textContent = anchor.code;
+        anchors.appendChild(pre);
+        if (anchor.moreLines > 0) {
+          const more = document.createElement('div');
+          more.className = 'more-lines';
+          more.textContent = '… ' + anchor.moreLines + ' more line' + (anchor.moreLines !== 1 ? 's' : '');
+          anchors.appendChild(more);
+        }
+      }
+
+      setValue(card.querySelector('.subtitle-input'), step.subtitle);
+      card.querySelector('.subtitle-preview').innerHTML = step.subtitleHtml || '<em>No subtitle</em>';
+
+      const duration = step.duration === undefined ? state.defaultDuration : step.duration;
+      setValue(card.querySelector('.duration-input'), duration);
+      showDuration(card, duration, step.duration === undefined);
+      card.querySelector('[data-action="resetDuration"]').disabled = step.duration === undefined;
+    }
+
+    function showDuration(card, seconds, isDefault) {
+      card.querySelector('.duration-value').textContent = seconds + 's' + (isDefault ? ' (default)' : '');
+    }
+
+    function renderStaleness() {
+      Array.from(stepsRoot.children).forEach((card, i) => {
+        const result = stale[i];
+        const status = result && result.status !== 'fresh' ? result.status : '';
+        card.classList.remove('drifted', 'missing', 'git-resolved');
+        if (status) {
+          card.classList.add(status);
+        }
+        const badge = card.querySelector('.stale-badge');
+        badge.className = 'stale-badge ' + status;
+        badge.textContent = status ? STALE_LABELS[status] : '';
+        badge.title = result && result.detail ? result.detail : '';
+      });
+    }
+
+    document.getElementById('title').addEventListener('input', (e) => {
+      later('title', () => post({ type: 'editField', field: 'title', value: e.target.value }));
+    });
+    document.getElementById('description').addEventListener('input', (e) => {
+      later('description', () => post({ type: 'editField', field: 'description', value: e.target.value }));
+    });
+
+    stepsRoot.addEventListener('input', (e) => {
+      const index = cardIndex(e.target);
+      if (e.target.classList.contains('subtitle-input')) {
+        const value = e.target.value;
+        later('subtitle' + index, () => post({ type: 'editSubtitle', index, value }));
+      } else if (e.target.classList.contains('duration-input')) {
+        showDuration(e.target.closest('.step-card'), e.target.value, false);
+      }
+    });
+    stepsRoot.addEventListener('change', (e) => {
+      if (e.target.classList.contains('duration-input')) {
+        post({ type: 'editDuration', index: cardIndex(e.target), value: Number(e.target.value) });
+      }
+    });
+
+    document.addEventListener('click', (e) => {
+      const link = e.target.closest('a[data-link]');
+      if (link) {
+        e.preventDefault();
+        const target = JSON.parse(link.dataset.link);
+        if (target.kind === 'step' && stepsRoot.children[target.step - 1]) {
+          stepsRoot.children[target.step - 1].scrollIntoView({ behavior: 'smooth' });
+        } else {
+          post({ type: 'openLink', link: target });
+        }
+        return;
+      }
+
+      const actionEl = e.target.closest('[data-action]');
+      if (!actionEl || actionEl.disabled) {
+        return;
+      }
+      const action = actionEl.dataset.action;
+      const index = cardIndex(actionEl);
+      if (action === 'up' || action === 'down') {
+        flush();
+        post({ type: 'moveStep', index, to: action === 'up' ? index - 1 : index + 1 });
+      } else if (action === 'delete') {
+        flush();
+        post({ type: 'deleteStep', index });
+      } else if (action === 'resetDuration') {
+        post({ type: 'editDuration', index, value: null });
+      } else if (action === 'reveal') {
+        post({ type: 'reveal', index });
+      } else {
+        post({ type: action });
+      }
+    });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,231 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { IndexedStep, StepIndex } from "./step-index";
+
+export interface FileCoverage {
+  uri: vscode.Uri;
+  relativePath: string;
+  lineCount: number;
+  coveredLines: number;
+  stepCount: number;
+}
+
+export interface UncoveredSymbol {
+  name: string;
+  kind: string;
+  relativePath: string;
+  // 1-based
+  line: number;
+  lineCount: number;
+}
+
+export interface CoverageReport {
+  files: FileCoverage[];
+  uncoveredSymbols: UncoveredSymbol[];
+  totalLines: number;
+  coveredLines: number;
+}
+
+const SOURCE_GLOB = "**/*.{ts,tsx,js,jsx,py,go,rs,java,c,cpp,cs,rb,swift,kt}";
+
+const IGNORED_PATTERNS = [
+  "**/node_modules/**",
+  "**/dist/**",
+  "**/out/**",
+  "**/.git/**",
+  "**/.walkthrough/**",
+];
+
+const MAX_SCANNED_FILES = 2000;
+// Asking language servers for symbols is slow, so only the files with the most uncovered lines are scanned
+const MAX_SYMBOL_FILES = 40;
+const MAX_REPORTED = 25;
+
+// Whether a top-level declaration is part of the file's public surface, by language
+const EXPORT_RULES: Record<string, (name: string, declaration: string) => boolean> = {
+  ".ts": (_name, decl) => /^\s*export\b/.test(decl),
+  ".tsx": (_name, decl) => /^\s*export\b/.test(decl),
+  ".js": (_name, decl) => /^\s*(export\b|module\.exports|exports\.)/.test(decl),
+  ".jsx": (_name, decl) => /^\s*export\b/.test(decl),
+  ".py": (name) => !name.startsWith("_"),
+  ".go": (name) => /^[A-Z]/.test(name),
+  ".rs": (_name, decl) => /^\s*pub\b/.test(decl),
+  ".java": (_name, decl) => /\bpublic\b/.test(decl),
+  ".cs": (_name, decl) => /\bpublic\b/.test(decl),
+};
+
+// 0-based, inclusive [start, end] line ranges covered by any anchor in `entries`, clamped to a
+// document of `lineCount` lines, sorted and merged so none overlap
+export function getCoveredRanges(entries: IndexedStep[], lineCount: number): Array<[number, number]> {
+  const ranges = entries
+    .map(({ anchor }): [number, number] => [
+      Math.max(anchor.lines[0] - 1, 0),
+      Math.min(anchor.lines[1] - 1, lineCount - 1),
+    ])
+    .filter(([start, end]) => start <= end)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function countCoveredLines(ranges: Array<[number, number]>): number {
+  return ranges.reduce((sum, [start, end]) => sum + end - start + 1, 0);
+}
+
+function countSteps(entries: IndexedStep[]): number {
+  return new Set(entries.map((e) => `${e.file.uri}#${e.stepIndex}`)).size;
+}
+
+async function readLines(uri: vscode.Uri): Promise<string[]> {
+  const raw = await vscode.workspace.fs.readFile(uri);
+  return Buffer.from(raw).toString("utf-8").split(/\r?\n/);
+}
+
+export async function computeCoverage(index: StepIndex): Promise<CoverageReport> {
+  if (!vscode.workspace.workspaceFolders) {
+    return { files: [], uncoveredSymbols: [], totalLines: 0, coveredLines: 0 };
+  }
+
+  const uris = await vscode.workspace.findFiles(
+    SOURCE_GLOB,
+    `{${IGNORED_PATTERNS.join(",")}}`,
+    MAX_SCANNED_FILES
+  );
+
+  const files: FileCoverage[] = [];
+  for (const uri of uris) {
+    try {
+      const lineCount = (await readLines(uri)).length;
+      const entries = index.forPath(uri.fsPath);
+      const covered = countCoveredLines(getCoveredRanges(entries, lineCount));
+      files.push({
+        uri,
+        // Prefixed with the folder name in multi-root workspaces
+        relativePath: vscode.workspace.asRelativePath(uri),
+        lineCount,
+        coveredLines: covered,
+        stepCount: countSteps(entries),
+      });
+    } catch {
+      // Unreadable files are left out of the report
+    }
+  }
+
+  const byUncovered = [...files].sort(
+    (a, b) => b.lineCount - b.coveredLines - (a.lineCount - a.coveredLines)
+  );
+  const uncoveredSymbols: UncoveredSymbol[] = [];
+  for (const file of byUncovered.slice(0, MAX_SYMBOL_FILES)) {
+    uncoveredSymbols.push(...(await findUncoveredSymbols(file, index)));
+  }
+  uncoveredSymbols.sort((a, b) => b.lineCount - a.lineCount);
+
+  return {
+    files,
+    uncoveredSymbols,
+    totalLines: files.reduce((sum, f) => sum + f.lineCount, 0),
+    coveredLines: files.reduce((sum, f) => sum + f.coveredLines, 0),
+  };
+}
+
+async function findUncoveredSymbols(file: FileCoverage, index: StepIndex): Promise<UncoveredSymbol[]> {
+  const isExported = EXPORT_RULES[path.extname(file.uri.fsPath)] ?? (() => true);
+  let symbols: vscode.DocumentSymbol[] | undefined;
+  try {
+    symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+      "vscode.executeDocumentSymbolProvider",
+      file.uri
+    );
+  } catch {
+    return [];
+  }
+  if (!symbols || symbols.length === 0) {
+    return [];
+  }
+
+  const lines = await readLines(file.uri);
+  const entries = index.forPath(file.uri.fsPath);
+  const coveredRanges = getCoveredRanges(entries, lines.length);
+  const coveredSymbols = new Set(entries.map((e) => e.anchor.symbol).filter((s) => s !== undefined));
+
+  // Only top-level declarations: members are explained along with their class or module
+  return symbols
+    .filter((s) => isExported(s.name, lines[s.range.start.line] ?? ""))
+    .filter((s) => !coveredSymbols.has(s.name))
+    .filter((s) => !coveredRanges.some(([start, end]) => start <= s.range.end.line && end >= s.range.start.line))
+    .map((s) => ({
+      name: s.name,
+      kind: vscode.SymbolKind[s.kind].toLowerCase(),
+      relativePath: file.relativePath,
+      line: s.range.start.line + 1,
+      lineCount: s.range.end.line - s.range.start.line + 1,
+    }));
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : "0%";
+}
+
+export function formatCoverageReport(report: CoverageReport): string {
+  const coveredFiles = report.files.filter((f) => f.coveredLines > 0).length;
+  const uncoveredFiles = report.files
+    .filter((f) => f.coveredLines === 0)
+    .sort((a, b) => b.lineCount - a.lineCount)
+    .slice(0, MAX_REPORTED);
+  const partialFiles = report.files
+    .filter((f) => f.coveredLines > 0 && f.coveredLines < f.lineCount)
+    .sort((a, b) => b.lineCount - b.coveredLines - (a.lineCount - a.coveredLines))
+    .slice(0, MAX_REPORTED);
+
+  const lines = [
+    "# Walkthrough Coverage",
+    "",
+    `- **Files:** ${coveredFiles} of ${report.files.length} covered by at least one step (${percent(coveredFiles, report.files.length)})`,
+    `- **Lines:** ${report.coveredLines} of ${report.totalLines} covered (${percent(report.coveredLines, report.totalLines)})`,
+    "",
+    "## Largest Uncovered Files",
+    "",
+  ];
+
+  if (uncoveredFiles.length === 0) {
+    lines.push("Every source file is covered by at least one step.");
+  } else {
+    lines.push("| File | Lines |", "|------|------:|");
+    uncoveredFiles.forEach((f) => lines.push(`| \`${f.relativePath}\` | ${f.lineCount} |`));
+  }
+
+  if (partialFiles.length > 0) {
+    lines.push("", "## Partially Covered Files", "", "| File | Covered | Uncovered lines | Steps |", "|------|--------:|------:|------:|");
+    partialFiles.forEach((f) =>
+      lines.push(
+        `| \`${f.relativePath}\` | ${percent(f.coveredLines, f.lineCount)} | ${f.lineCount - f.coveredLines} | ${f.stepCount} |`
+      )
+    );
+  }
+
+  lines.push("", "## Largest Uncovered Exported Symbols", "");
+  if (report.uncoveredSymbols.length === 0) {
+    lines.push("No uncovered exported symbols found.");
+  } else {
+    lines.push("| Symbol | Kind | Location | Lines |", "|--------|------|----------|------:|");
+    report.uncoveredSymbols
+      .slice(0, MAX_REPORTED)
+      .forEach((s) => lines.push(`| \`${s.name}\` | ${s.kind} | \`${s.relativePath}:${s.line}\` | ${s.lineCount} |`));
+  }
+
+  lines.push(
+    "",
+    `_Symbols are listed for the ${MAX_SYMBOL_FILES} files with the most uncovered lines. Record or generate a walkthrough for these to raise coverage._`,
+    ""
+  );
+  return lines.join("\n");
+}
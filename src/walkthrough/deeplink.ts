@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { WalkthroughFile } from "./types";
+import { getWalkthroughId, resolveWalkthroughRef } from "./paths";
+
+// Links of the form vscode://<extension id>/play?walkthrough=auth-flow&step=5 open a workspace
+// walkthrough, optionally at a 1-based step. `walkthrough` is matched against file ids first,
+// then bare file names, then titles.
+
+const PLAY_PATH = "/play";
+
+export interface DeepLinkTarget {
+  walkthrough: string;
+  // 1-based
+  step?: number;
+}
+
+// Handed to exporters so they can link back into the editor
+export interface DeepLinkContext {
+  // Id of the walkthrough being exported
+  walkthroughId: string;
+  link(walkthroughId: string, step?: number): string;
+}
+
+export function buildDeepLink(extensionId: string, walkthroughId: string, step?: number): string {
+  const query = `walkthrough=${encodeURIComponent(walkthroughId)}${step !== undefined ? `&step=${step}` : ""}`;
+  return `${vscode.env.uriScheme}://${extensionId}${PLAY_PATH}?${query}`;
+}
+
+export function parseDeepLink(uri: vscode.Uri): DeepLinkTarget | null {
+  if (uri.path !== PLAY_PATH) {
+    return null;
+  }
+  const params = new URLSearchParams(uri.query);
+  const walkthrough = params.get("walkthrough");
+  if (!walkthrough) {
+    return null;
+  }
+  const step = parseInt(params.get("step") ?? "", 10);
+  return { walkthrough, step: step >= 1 ? step : undefined };
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+}
+
+// `home` is the folder of the walkthrough a subtitle link was written in, which a bare name refers to
+export function findWalkthrough(
+  files: WalkthroughFile[],
+  query: string,
+  home?: vscode.WorkspaceFolder
+): WalkthroughFile | undefined {
+  const slug = slugify(query);
+  const id = resolveWalkthroughRef(query, home);
+  return (
+    files.find((f) => getWalkthroughId(f.uri) === id) ??
+    files.find((f) => getWalkthroughId(f.uri) === query) ??
+    files.find((f) => slugify(getWalkthroughId(f.uri)) === slug) ??
+    files.find((f) => slugify(path.basename(f.uri, path.extname(f.uri))) === slug) ??
+    files.find((f) => slugify(f.walkthrough.title) === slug)
+  );
+}
@@ -0,0 +1,321 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { findJsonNode, parseJsonTree, JsonNode } from "./json-ast";
+import { JsonPath, validateWalkthroughStructure } from "./validate";
+import { CURRENT_SCHEMA_VERSION, UnsupportedSchemaVersionError, getSchemaVersion } from "./migrate";
+import { StepAnchor, Walkthrough, getStepAnchors } from "./types";
+import { getHomeFolder, resolveStepFile } from "./workspace";
+
+const VALIDATE_DELAY_MS = 300;
+
+interface Problem {
+  path: JsonPath;
+  message: string;
+  severity: vscode.DiagnosticSeverity;
+}
+
+export function isWalkthroughDocument(doc: vscode.TextDocument): boolean {
+  return (
+    doc.uri.scheme === "file" &&
+    path.extname(doc.uri.fsPath) === ".json" &&
+    path.basename(path.dirname(doc.uri.fsPath)) === ".walkthrough"
+  );
+}
+
+export class WalkthroughDiagnostics {
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("codeWalkthrough");
+  private readonly pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+  schedule(doc: vscode.TextDocument): void {
+    if (!isWalkthroughDocument(doc)) {
+      return;
+    }
+    const key = doc.uri.toString();
+    const existing = this.pending.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        this.validate(doc).catch((err) => this.reportFailure(doc, err));
+      }, VALIDATE_DELAY_MS)
+    );
+  }
+
+  // Never rejects: failures are reported per file, so callers can fire and forget
+  async validateAll(): Promise<void> {
+    let files: vscode.Uri[];
+    try {
+      files = await vscode.workspace.findFiles(".walkthrough/*.json", "**/node_modules/**");
+    } catch {
+      // Without a file list there is nothing to validate; open files are still checked on edit
+      return;
+    }
+    for (const file of files) {
+      await this.validateUri(file);
+    }
+  }
+
+  async validateUri(uri: vscode.Uri): Promise<void> {
+    let doc: vscode.TextDocument;
+    try {
+      doc = await vscode.workspace.openTextDocument(uri);
+    } catch {
+      // The file is gone, so there is nothing left to report on
+      this.collection.delete(uri);
+      return;
+    }
+    try {
+      await this.validate(doc);
+    } catch (err) {
+      this.reportFailure(doc, err);
+    }
+  }
+
+  // Replaces whatever was shown before, so a failed run never leaves stale problems behind
+  private reportFailure(doc: vscode.TextDocument, err: unknown): void {
+    const message = err instanceof Error ? err.message : String(err);
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(0, 0, 0, 1),
+      `Could not validate walkthrough: ${message}`,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = "walkthrough";
+    this.collection.set(doc.uri, [diagnostic]);
+  }
+
+  async validate(doc: vscode.TextDocument): Promise<void> {
+    if (!isWalkthroughDocument(doc)) {
+      return;
+    }
+
+    const { root, value: data, error } = parseJsonTree(doc.getText());
+    if (!root) {
+      this.setSyntaxError(doc, error?.offset ?? 0, error?.message ?? "Invalid JSON");
+      return;
+    }
+
+    // A newer format may have fields this version doesn't know, so don't second-guess its structure
+    const version = getSchemaVersion(data);
+    if (version > CURRENT_SCHEMA_VERSION) {
+      this.collection.set(doc.uri, [
+        toDiagnostic(doc, root, {
+          path: ["schemaVersion"],
+          message: new UnsupportedSchemaVersionError(version).message,
+          severity: vscode.DiagnosticSeverity.Warning,
+        }),
+      ]);
+      return;
+    }
+
+    const problems: Problem[] = validateWalkthroughStructure(data).map((issue) => ({
+      ...issue,
+      severity: vscode.DiagnosticSeverity.Error,
+    }));
+
+    if (problems.length === 0) {
+      problems.push(...checkChapters(data as Walkthrough));
+      problems.push(...(await checkReferences(data as Walkthrough, getHomeFolder(doc.uri.fsPath))));
+    }
+
+    this.collection.set(
+      doc.uri,
+      problems.map((p) => toDiagnostic(doc, root, p))
+    );
+  }
+
+  private setSyntaxError(doc: vscode.TextDocument, offset: number, message: string): void {
+    const position = doc.positionAt(offset);
+    this.collection.set(doc.uri, [
+      new vscode.Diagnostic(
+        new vscode.Range(position, position.translate(0, 1)),
+        message,
+        vscode.DiagnosticSeverity.Error
+      ),
+    ]);
+  }
+
+  delete(uri: vscode.Uri): void {
+    this.collection.delete(uri);
+  }
+
+  dispose(): void {
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.collection.dispose();
+  }
+}
+
+function toDiagnostic(
+  doc: vscode.TextDocument,
+  root: JsonNode,
+  problem: Problem
+): vscode.Diagnostic {
+  const { node, exact } = findJsonNode(root, problem.path);
+  // Missing properties are reported on the opening brace of the object that should contain them
+  const length = exact ? node.length : 1;
+  const range = new vscode.Range(
+    doc.positionAt(node.offset),
+    doc.positionAt(node.offset + length)
+  );
+  const diagnostic = new vscode.Diagnostic(range, problem.message, problem.severity);
+  diagnostic.source = "walkthrough";
+  return diagnostic;
+}
+
+function checkChapters(walkthrough: Walkthrough): Problem[] {
+  const problems: Problem[] = [];
+  const total = walkthrough.steps.length;
+  let previous = 0;
+
+  (walkthrough.chapters ?? []).forEach((chapter, i) => {
+    const startPath: JsonPath = ["chapters", i, "startStep"];
+    if (!Number.isInteger(chapter.startStep) || chapter.startStep < 1 || chapter.startStep > total) {
+      problems.push({
+        path: startPath,
+        message: `"startStep" must be a step number between 1 and ${total}.`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+      return;
+    }
+    if (chapter.startStep <= previous) {
+      problems.push({
+        path: startPath,
+        message: `Chapter "${chapter.title}" starts at step ${chapter.startStep}, which is not after the previous chapter (step ${previous}).`,
+        severity: vscode.DiagnosticSeverity.Warning,
+      });
+    }
+    previous = Math.max(previous, chapter.startStep);
+  });
+
+  return problems;
+}
+
+async function checkReferences(
+  walkthrough: Walkthrough,
+  home: vscode.WorkspaceFolder | undefined
+): Promise<Problem[]> {
+  if (!home) {
+    return [];
+  }
+
+  const problems: Problem[] = [];
+  const symbolCache = new Map<string, string[] | null>();
+
+  for (let i = 0; i < walkthrough.steps.length; i++) {
+    const step = walkthrough.steps[i];
+
+    if (step.duration !== undefined && step.duration <= 0) {
+      problems.push({
+        path: ["steps", i, "duration"],
+        message: "Duration must be a positive number of seconds.",
+        severity: vscode.DiagnosticSeverity.Warning,
+      });
+    }
+
+    const anchors = getStepAnchors(step);
+    for (let j = 0; j < anchors.length; j++) {
+      const base: JsonPath = j === 0 ? ["steps", i] : ["steps", i, "anchors", j - 1];
+      problems.push(...(await checkAnchor(anchors[j], base, home, symbolCache)));
+    }
+  }
+
+  return problems;
+}
+
+async function checkAnchor(
+  anchor: StepAnchor,
+  base: JsonPath,
+  home: vscode.WorkspaceFolder,
+  symbolCache: Map<string, string[] | null>
+): Promise<Problem[]> {
+  const problems: Problem[] = [];
+  const [start, end] = anchor.lines;
+  const linesPath: JsonPath = [...base, "lines"];
+
+  const filePath = resolveStepFile(anchor.file, home);
+  let doc: vscode.TextDocument | undefined;
+  try {
+    doc = filePath ? await vscode.workspace.openTextDocument(vscode.Uri.file(filePath)) : undefined;
+  } catch {
+    // Unreadable files are reported the same way as missing ones below
+    doc = undefined;
+  }
+  if (!doc) {
+    problems.push({
+      path: [...base, "file"],
+      message: `File not found: ${anchor.file}`,
+      severity: vscode.DiagnosticSeverity.Error,
+    });
+    return problems;
+  }
+
+  if (Math.max(start, end) > doc.lineCount) {
+    problems.push({
+      path: linesPath,
+      message: `Range ${start}-${end} is out of bounds: ${anchor.file} has ${doc.lineCount} lines.`,
+      severity: vscode.DiagnosticSeverity.Error,
+    });
+  }
+
+  // Ranges are already known to be ordered and 1-based, so only the document can be out of step
+  if (anchor.columns && end <= doc.lineCount) {
+    const [startColumn, endColumn] = anchor.columns;
+    if (
+      startColumn > doc.lineAt(start - 1).text.length + 1 ||
+      endColumn > doc.lineAt(end - 1).text.length + 1
+    ) {
+      problems.push({
+        path: [...base, "columns"],
+        message: `Columns ${startColumn}-${endColumn} are past the end of the line.`,
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+    }
+  }
+
+  if (anchor.symbol) {
+    let names = symbolCache.get(anchor.file);
+    if (names === undefined) {
+      names = await getSymbolNames(doc.uri);
+      symbolCache.set(anchor.file, names);
+    }
+    // Without a language server there is nothing to compare against, so stay quiet
+    if (names && !names.includes(anchor.symbol)) {
+      problems.push({
+        path: [...base, "symbol"],
+        message: `Symbol "${anchor.symbol}" was not found in ${anchor.file}.`,
+        severity: vscode.DiagnosticSeverity.Warning,
+      });
+    }
+  }
+
+  return problems;
+}
+
+async function getSymbolNames(uri: vscode.Uri): Promise<string[] | null> {
+  try {
+    const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+      "vscode.executeDocumentSymbolProvider",
+      uri
+    );
+    if (!symbols || symbols.length === 0) {
+      return null;
+    }
+    const names: string[] = [];
+    const collect = (list: vscode.DocumentSymbol[]): void => {
+      for (const sym of list) {
+        names.push(sym.name);
+        collect(sym.children ?? []);
+      }
+    };
+    collect(symbols);
+    return names;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,241 @@
+export type JsonNodeType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "boolean"
+  | "null";
+
+export interface JsonProperty {
+  key: string;
+  keyOffset: number;
+  keyLength: number;
+  value: JsonNode;
+}
+
+export type JsonScalar = string | number | boolean | null;
+
+export interface JsonNode {
+  type: JsonNodeType;
+  offset: number;
+  length: number;
+  // Set on strings, numbers, booleans and null
+  value?: JsonScalar;
+  properties?: JsonProperty[];
+  items?: JsonNode[];
+}
+
+export interface JsonParseError {
+  offset: number;
+  message: string;
+}
+
+export interface JsonParseResult {
+  root: JsonNode | null;
+  // The document as JSON.parse would return it; undefined when it doesn't parse
+  value: unknown;
+  error: JsonParseError | null;
+}
+
+class JsonSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+// Minimal JSON parser that keeps source offsets so diagnostics can point at the offending token
+export function parseJsonTree(text: string): JsonParseResult {
+  let pos = 0;
+
+  function skipWhitespace(): void {
+    while (pos < text.length && /[ \t\n\r]/.test(text[pos])) {
+      pos++;
+    }
+  }
+
+  function expect(char: string): void {
+    if (text[pos] !== char) {
+      throw new JsonSyntaxError(
+        pos >= text.length ? `Expected '${char}' but reached end of file` : `Expected '${char}'`,
+        pos
+      );
+    }
+    pos++;
+  }
+
+  function parseString(): number {
+    const start = pos;
+    expect('"');
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === "\\") {
+        const escape = text[pos + 1];
+        if (escape === "u") {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(pos + 2, pos + 6))) {
+            throw new JsonSyntaxError("Invalid unicode escape sequence", pos);
+          }
+          pos += 6;
+          continue;
+        }
+        if (escape === undefined || !'"\\/bfnrt'.includes(escape)) {
+          throw new JsonSyntaxError("Invalid escape character in string", pos);
+        }
+        pos += 2;
+        continue;
+      }
+      if (text[pos] === "\n") {
+        throw new JsonSyntaxError("Unterminated string", start);
+      }
+      if (text.charCodeAt(pos) < 0x20) {
+        throw new JsonSyntaxError("Control characters must be escaped in strings", pos);
+      }
+      pos++;
+    }
+    if (pos >= text.length) {
+      throw new JsonSyntaxError("Unterminated string", start);
+    }
+    pos++;
+    return pos - start;
+  }
+
+  function parseValue(): JsonNode {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+
+    if (char === "{") {
+      return parseObject();
+    }
+    if (char === "[") {
+      return parseArray();
+    }
+    if (char === '"') {
+      const length = parseString();
+      return { type: "string", offset: start, length, value: JSON.parse(text.slice(start, pos)) as string };
+    }
+
+    const literal = text.slice(pos).match(/^(true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/);
+    if (!literal) {
+      throw new JsonSyntaxError(
+        pos >= text.length ? "Unexpected end of file" : "Value expected",
+        pos
+      );
+    }
+    if (/^-?0\d/.test(literal[0])) {
+      throw new JsonSyntaxError("Numbers cannot have leading zeros", pos);
+    }
+    pos += literal[0].length;
+    const value = JSON.parse(literal[0]) as JsonScalar;
+    const type: JsonNodeType = value === null ? "null" : typeof value === "boolean" ? "boolean" : "number";
+    return { type, offset: start, length: literal[0].length, value };
+  }
+
+  function parseObject(): JsonNode {
+    const start = pos;
+    const properties: JsonProperty[] = [];
+    expect("{");
+    skipWhitespace();
+
+    if (text[pos] === "}") {
+      pos++;
+      return { type: "object", offset: start, length: pos - start, properties };
+    }
+
+    for (;;) {
+      skipWhitespace();
+      const keyOffset = pos;
+      const keyLength = parseString();
+      const key = JSON.parse(text.slice(keyOffset, keyOffset + keyLength)) as string;
+      skipWhitespace();
+      expect(":");
+      const value = parseValue();
+      properties.push({ key, keyOffset, keyLength, value });
+      skipWhitespace();
+      if (text[pos] === ",") {
+        pos++;
+        continue;
+      }
+      expect("}");
+      return { type: "object", offset: start, length: pos - start, properties };
+    }
+  }
+
+  function parseArray(): JsonNode {
+    const start = pos;
+    const items: JsonNode[] = [];
+    expect("[");
+    skipWhitespace();
+
+    if (text[pos] === "]") {
+      pos++;
+      return { type: "array", offset: start, length: pos - start, items };
+    }
+
+    for (;;) {
+      items.push(parseValue());
+      skipWhitespace();
+      if (text[pos] === ",") {
+        pos++;
+        continue;
+      }
+      expect("]");
+      return { type: "array", offset: start, length: pos - start, items };
+    }
+  }
+
+  try {
+    const root = parseValue();
+    skipWhitespace();
+    if (pos < text.length) {
+      throw new JsonSyntaxError("End of file expected", pos);
+    }
+    return { root, value: toValue(root), error: null };
+  } catch (err) {
+    if (err instanceof JsonSyntaxError) {
+      return { root: null, value: undefined, error: { offset: err.offset, message: err.message } };
+    }
+    throw err;
+  }
+}
+
+function toValue(node: JsonNode): unknown {
+  if (node.items) {
+    return node.items.map(toValue);
+  }
+  if (node.properties) {
+    const result: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      // Defined rather than assigned, so a "__proto__" key stays an ordinary property as with JSON.parse
+      Object.defineProperty(result, property.key, {
+        value: toValue(property.value),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+  return node.value;
+}
+
+// Resolves a property/index path to the deepest node that exists along it
+export function findJsonNode(
+  root: JsonNode,
+  jsonPath: ReadonlyArray<string | number>
+): { node: JsonNode; exact: boolean } {
+  let node = root;
+
+  for (const segment of jsonPath) {
+    let next: JsonNode | undefined;
+    if (typeof segment === "number" && node.items) {
+      next = node.items[segment];
+    } else if (typeof segment === "string" && node.properties) {
+      next = node.properties.find((p) => p.key === segment)?.value;
+    }
+    if (!next) {
+      return { node, exact: false };
+    }
+    node = next;
+  }
+
+  return { node, exact: true };
+}
@@ -0,0 +1,103 @@
+import { JsonNode, findJsonNode, parseJsonTree } from "./json-ast";
+
+// Text edits to a JSON document that change one value and leave everything around it as written,
+// so hand formatting such as "lines": [1, 5] and the order of keys survive edits made from the UI.
+// Each function returns the new text, or `text` itself when there is nothing to change.
+
+type JsonPath = ReadonlyArray<string | number>;
+
+function parseRoot(text: string): JsonNode {
+  const { root, error } = parseJsonTree(text);
+  if (!root) {
+    throw new Error(error?.message ?? "Invalid JSON");
+  }
+  return root;
+}
+
+function splice(text: string, offset: number, length: number, insert: string): string {
+  return text.slice(0, offset) + insert + text.slice(offset + length);
+}
+
+// Start and end offsets of each property (key through value) or array item
+function memberSpans(node: JsonNode): Array<[number, number]> {
+  if (node.properties) {
+    return node.properties.map((p) => [p.keyOffset, p.value.offset + p.value.length]);
+  }
+  return (node.items ?? []).map((item) => [item.offset, item.offset + item.length]);
+}
+
+// Sets the value at `path`, adding the last property if the object doesn't have it yet
+export function setJsonValue(text: string, path: JsonPath, value: unknown): string {
+  const root = parseRoot(text);
+  const { node, exact } = findJsonNode(root, path);
+  const encoded = JSON.stringify(value);
+  if (exact) {
+    return text.slice(node.offset, node.offset + node.length) === encoded
+      ? text
+      : splice(text, node.offset, node.length, encoded);
+  }
+
+  const key = path[path.length - 1];
+  const parent = findJsonNode(root, path.slice(0, -1));
+  if (!parent.exact || !parent.node.properties || typeof key !== "string") {
+    throw new Error(`No object to add "${String(key)}" to`);
+  }
+
+  const object = parent.node;
+  const spans = memberSpans(object);
+  const entry = `${JSON.stringify(key)}: ${encoded}`;
+  if (spans.length === 0) {
+    return splice(text, object.offset + 1, object.length - 2, entry);
+  }
+  // Copy the separator the object already uses, whether it is laid out on one line or several
+  const last = spans[spans.length - 1];
+  let separator: string;
+  if (spans.length > 1) {
+    separator = text.slice(spans[spans.length - 2][1], last[0]);
+  } else {
+    const leading = text.slice(object.offset + 1, spans[0][0]);
+    separator = "," + (leading.includes("\n") ? leading : " ");
+  }
+  return splice(text, last[1], 0, separator + entry);
+}
+
+// Removes the property or array item at `path` together with the comma that separates it
+export function removeJsonValue(text: string, path: JsonPath): string {
+  const root = parseRoot(text);
+  const parent = findJsonNode(root, path.slice(0, -1));
+  if (!parent.exact) {
+    return text;
+  }
+  const key = path[path.length - 1];
+  const index =
+    typeof key === "number" ? key : (parent.node.properties ?? []).findIndex((p) => p.key === key);
+  const spans = memberSpans(parent.node);
+  if (index < 0 || index >= spans.length) {
+    return text;
+  }
+  if (spans.length === 1) {
+    return splice(text, parent.node.offset + 1, parent.node.length - 2, "");
+  }
+  // The separator before the member goes with it, or the one after for the first member
+  const [start, end] = index > 0 ? [spans[index - 1][1], spans[index][1]] : [spans[0][0], spans[1][0]];
+  return splice(text, start, end - start, "");
+}
+
+// Moves item `from` of the array at `path` to index `to`, keeping the separators where they were
+export function moveJsonArrayItem(text: string, path: JsonPath, from: number, to: number): string {
+  const { node, exact } = findJsonNode(parseRoot(text), path);
+  const items = node.items;
+  if (!exact || !items || !items[from] || to < 0 || to >= items.length || from === to) {
+    return text;
+  }
+
+  const texts = items.map((item) => text.slice(item.offset, item.offset + item.length));
+  const separators = items.slice(1).map((item, i) => text.slice(items[i].offset + items[i].length, item.offset));
+  const [moved] = texts.splice(from, 1);
+  texts.splice(to, 0, moved);
+
+  const start = items[0].offset;
+  const last = items[items.length - 1];
+  const body = texts.map((t, i) => (i === 0 ? t : separators[i - 1] + t)).join("");
+  return splice(text, start, last.offset + last.length - start, body);
+}
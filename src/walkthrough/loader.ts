@@ -1,39 +1,170 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { Walkthrough, WalkthroughFile, WalkthroughStep } from "./types";
+import { Walkthrough, WalkthroughFile, moveChapterShift, shiftChapterStarts } from "./types";
+import { formatJsonPath, validateWalkthroughStructure } from "./validate";
+import { UnsupportedSchemaVersionError, migrateWalkthrough } from "./migrate";
+import {
+  WalkthroughFormatError,
+  deleteMarkdownStep,
+  editMarkdownStep,
+  moveMarkdownStep,
+  parseWalkthroughMarkdown,
+  serializeWalkthroughMarkdown,
+  setMarkdownField,
+} from "./markdown-format";
+import { moveJsonArrayItem, removeJsonValue, setJsonValue } from "./json-edit";
+import { convertTour, findTourFiles, readTour } from "../import/codetour";
 
-function isValidStep(step: unknown): step is WalkthroughStep {
-  if (typeof step !== "object" || step === null) {
-    return false;
+export const WALKTHROUGH_GLOB = ".walkthrough/*.{json,md}";
+
+export function isMarkdownWalkthrough(fsPath: string): boolean {
+  return path.extname(fsPath).toLowerCase() === ".md";
+}
+
+// Walkthroughs are written back in the format they were authored in
+export function parseWalkthroughText(fsPath: string, text: string): unknown {
+  return isMarkdownWalkthrough(fsPath) ? parseWalkthroughMarkdown(text) : JSON.parse(text);
+}
+
+export function serializeWalkthrough(fsPath: string, walkthrough: Walkthrough): string {
+  return isMarkdownWalkthrough(fsPath)
+    ? serializeWalkthroughMarkdown(walkthrough)
+    : JSON.stringify(walkthrough, null, 2) + "\n";
+}
+
+export type WalkthroughTextChange =
+  | { type: "field"; field: "title" | "description"; value: string }
+  | { type: "subtitle"; index: number; value: string }
+  | { type: "duration"; index: number; value: number | null }
+  | { type: "move"; index: number; to: number }
+  | { type: "delete"; index: number };
+
+// Applies one change to the text of a walkthrough file, touching only the part that changes:
+// unlike serializeWalkthrough, the rest keeps its formatting and is not migrated. `walkthrough`
+// is what the text currently parses to.
+export function editWalkthroughText(
+  fsPath: string,
+  text: string,
+  walkthrough: Walkthrough,
+  change: WalkthroughTextChange
+): string {
+  if (change.type !== "field" && !walkthrough.steps[change.index]) {
+    return text;
+  }
+  if (change.type === "move" && (change.to < 0 || change.to >= walkthrough.steps.length)) {
+    return text;
+  }
+
+  if (isMarkdownWalkthrough(fsPath)) {
+    switch (change.type) {
+      case "field":
+        return setMarkdownField(text, change.field, change.value);
+      case "subtitle":
+      case "duration":
+        return editMarkdownStep(text, change.index, change);
+      case "move":
+        return moveMarkdownStep(text, change.index, change.to);
+      case "delete":
+        return deleteMarkdownStep(text, change.index);
+    }
+  }
+
+  switch (change.type) {
+    case "field":
+      return setJsonValue(text, [change.field], change.value);
+    case "subtitle":
+      return setJsonValue(text, ["steps", change.index, "subtitle"], change.value);
+    case "duration":
+      return change.value === null
+        ? removeJsonValue(text, ["steps", change.index, "duration"])
+        : setJsonValue(text, ["steps", change.index, "duration"], change.value);
+    case "move":
+      return shiftJsonChapters(
+        moveJsonArrayItem(text, ["steps"], change.index, change.to),
+        walkthrough,
+        walkthrough.steps.length,
+        moveChapterShift(change.index, change.to)
+      );
+    case "delete": {
+      const index = change.index;
+      return shiftJsonChapters(
+        removeJsonValue(text, ["steps", index]),
+        walkthrough,
+        walkthrough.steps.length - 1,
+        (start) => (start > index ? start - 1 : start)
+      );
+    }
   }
-  const s = step as Record<string, unknown>;
-  return (
-    typeof s.file === "string" &&
-    Array.isArray(s.lines) &&
-    s.lines.length === 2 &&
-    typeof s.lines[0] === "number" &&
-    typeof s.lines[1] === "number" &&
-    typeof s.subtitle === "string"
-  );
 }
 
-function isValidWalkthrough(data: unknown): data is Walkthrough {
-  if (typeof data !== "object" || data === null) {
-    return false;
+function shiftJsonChapters(
+  text: string,
+  walkthrough: Walkthrough,
+  stepCount: number,
+  shift: (start: number) => number
+): string {
+  const chapters = walkthrough.chapters ?? [];
+  const starts = shiftChapterStarts(chapters, stepCount, shift);
+  if (chapters.length > 0 && starts.every((start) => start === null)) {
+    return removeJsonValue(text, ["chapters"]);
+  }
+  // Back to front, so removing a chapter doesn't change the index of the ones still to do
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    const start = starts[i];
+    if (start === null) {
+      text = removeJsonValue(text, ["chapters", i]);
+    } else if (start !== chapters[i].startStep) {
+      text = setJsonValue(text, ["chapters", i, "startStep"], start);
+    }
+  }
+  return text;
+}
+
+function describeLoadError(fileName: string, err: unknown): string {
+  if (err instanceof UnsupportedSchemaVersionError) {
+    return `${fileName}: ${err.message}`;
+  }
+  if (err instanceof vscode.FileSystemError) {
+    return `Failed to load: ${fileName}`;
+  }
+  return err instanceof WalkthroughFormatError
+    ? `Failed to parse: ${fileName}: ${err.message}`
+    : `Failed to parse: ${fileName}`;
+}
+
+// Parses a walkthrough file and upgrades it to the current schema version in memory
+function readWalkthroughData(fsPath: string, text: string): unknown {
+  return migrateWalkthrough(parseWalkthroughText(fsPath, text)).data;
+}
+
+function describeInvalid(fileName: string, data: unknown): string | null {
+  const issues = validateWalkthroughStructure(data);
+  if (issues.length === 0) {
+    return null;
+  }
+  const first = issues[0];
+  const location = formatJsonPath(first.path);
+  const more = issues.length > 1 ? ` (+${issues.length - 1} more, see Problems panel)` : "";
+  return `Invalid walkthrough: ${fileName}: ${location ? `${location}: ` : ""}${first.message}${more}`;
+}
+
+// For editors working on unsaved text: the walkthrough, or a message saying why it can't be read
+export function readWalkthroughText(
+  fsPath: string,
+  text: string
+): { walkthrough: Walkthrough } | { error: string } {
+  try {
+    const data = readWalkthroughData(fsPath, text);
+    const invalid = describeInvalid(path.basename(fsPath), data);
+    return invalid ? { error: invalid } : { walkthrough: data as Walkthrough };
+  } catch (err) {
+    return { error: describeLoadError(path.basename(fsPath), err) };
   }
-  const d = data as Record<string, unknown>;
-  return (
-    typeof d.title === "string" &&
-    typeof d.description === "string" &&
-    Array.isArray(d.steps) &&
-    d.steps.length > 0 &&
-    d.steps.every(isValidStep)
-  );
 }
 
 export async function discoverWalkthroughs(): Promise<WalkthroughFile[]> {
   const files = await vscode.workspace.findFiles(
-    ".walkthrough/*.json",
+    WALKTHROUGH_GLOB,
     "**/node_modules/**"
   );
 
@@ -43,20 +174,43 @@ export async function discoverWalkthroughs(): Promise<WalkthroughFile[]> {
     try {
       const raw = await vscode.workspace.fs.readFile(file);
       const text = Buffer.from(raw).toString("utf-8");
-      const data: unknown = JSON.parse(text);
+      const data = readWalkthroughData(file.fsPath, text);
 
-      if (!isValidWalkthrough(data)) {
-        vscode.window.showWarningMessage(
-          `Invalid walkthrough: ${path.basename(file.fsPath)}`
-        );
+      const invalid = describeInvalid(path.basename(file.fsPath), data);
+      if (invalid) {
+        vscode.window.showWarningMessage(invalid);
         continue;
       }
 
-      results.push({ uri: file.fsPath, walkthrough: data });
-    } catch {
-      vscode.window.showWarningMessage(
-        `Failed to parse: ${path.basename(file.fsPath)}`
-      );
+      results.push({ uri: file.fsPath, walkthrough: data as Walkthrough });
+    } catch (err) {
+      vscode.window.showWarningMessage(describeLoadError(path.basename(file.fsPath), err));
+    }
+  }
+
+  if (vscode.workspace.getConfiguration("codeWalkthrough").get<boolean>("codeTour.discoverTours", true)) {
+    results.push(...(await discoverTours(results)));
+  }
+
+  return results;
+}
+
+// Tours already imported under the same title are skipped so they don't show up twice
+async function discoverTours(existing: WalkthroughFile[]): Promise<WalkthroughFile[]> {
+  const titles = new Set(existing.map((f) => f.walkthrough.title));
+  const results: WalkthroughFile[] = [];
+
+  for (const file of await findTourFiles()) {
+    const tour = await readTour(file);
+    if (!tour || titles.has(tour.title)) {
+      continue;
+    }
+    const walkthrough = await convertTour(tour, {
+      computeHashes: false,
+      folder: vscode.workspace.getWorkspaceFolder(file),
+    });
+    if (walkthrough.steps.length > 0) {
+      results.push({ uri: file.fsPath, walkthrough, readOnly: true });
     }
   }
 
@@ -70,20 +224,56 @@ export async function loadWalkthrough(
     const uri = vscode.Uri.file(fsPath);
     const raw = await vscode.workspace.fs.readFile(uri);
     const text = Buffer.from(raw).toString("utf-8");
-    const data: unknown = JSON.parse(text);
+    const data = readWalkthroughData(fsPath, text);
 
-    if (!isValidWalkthrough(data)) {
-      vscode.window.showWarningMessage(
-        `Invalid walkthrough: ${path.basename(fsPath)}`
-      );
+    const invalid = describeInvalid(path.basename(fsPath), data);
+    if (invalid) {
+      vscode.window.showWarningMessage(invalid);
       return null;
     }
 
-    return data;
-  } catch {
-    vscode.window.showWarningMessage(
-      `Failed to load: ${path.basename(fsPath)}`
-    );
+    return data as Walkthrough;
+  } catch (err) {
+    vscode.window.showWarningMessage(describeLoadError(path.basename(fsPath), err));
     return null;
   }
 }
+
+export interface UpgradeSummary {
+  upgraded: string[];
+  upToDate: number;
+  failed: string[];
+}
+
+// Rewrites every walkthrough file that is behind the current schema version, keeping its format
+export async function upgradeWalkthroughFiles(): Promise<UpgradeSummary> {
+  const files = await vscode.workspace.findFiles(WALKTHROUGH_GLOB, "**/node_modules/**");
+  const summary: UpgradeSummary = { upgraded: [], upToDate: 0, failed: [] };
+
+  for (const file of files) {
+    const fileName = path.basename(file.fsPath);
+    try {
+      const raw = await vscode.workspace.fs.readFile(file);
+      const text = Buffer.from(raw).toString("utf-8");
+      const { data, migrated } = migrateWalkthrough(parseWalkthroughText(file.fsPath, text));
+
+      const invalid = describeInvalid(fileName, data);
+      if (invalid) {
+        summary.failed.push(invalid);
+        continue;
+      }
+      if (!migrated) {
+        summary.upToDate++;
+        continue;
+      }
+
+      const content = serializeWalkthrough(file.fsPath, data as Walkthrough);
+      await vscode.workspace.fs.writeFile(file, Buffer.from(content, "utf-8"));
+      summary.upgraded.push(fileName);
+    } catch (err) {
+      summary.failed.push(describeLoadError(fileName, err));
+    }
+  }
+
+  return summary;
+}
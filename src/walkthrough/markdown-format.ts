@@ -0,0 +1,466 @@
+import {
+  StepAnchor,
+  Walkthrough,
+  WalkthroughChapter,
+  WalkthroughStep,
+  formatAnchorLocation,
+  getChapterRanges,
+  getStepAnchors,
+  withStepAnchors,
+} from "./types";
+
+// Markdown walkthroughs look like:
+//
+//   ---
+//   schemaVersion: 1
+//   title: Auth Flow
+//   description: How a request gets authenticated
+//   commitSha: 1a2b3c4
+//   ---
+//
+//   # Optional chapter heading
+//   Optional chapter description.
+//
+//   ## `src/auth.ts:10-24`
+//   Free-form **Markdown** subtitle.
+//
+// A step heading may list several anchors separated by " + ", and columns as file:10:5-10:18.
+// Fields without a natural Markdown home (symbol, contentHash, duration) live in a JSON comment
+// directly under the step heading so they survive a round trip. Subtitle lines that would read as
+// a chapter or step heading are written with a leading backslash, which Markdown renders as-is.
+
+export class WalkthroughFormatError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`line ${line}: ${message}`);
+  }
+}
+
+interface StepMeta {
+  symbol?: string;
+  contentHash?: string;
+  duration?: number;
+  anchors?: Array<{ symbol?: string; contentHash?: string }>;
+}
+
+const LOCATION_PATTERN = /^(.+?):(\d+)(?::(\d+))?(?:-(\d+)(?::(\d+))?)?$/;
+const META_PATTERN = /^<!--\s*(\{.*\})\s*-->$/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^(#{1,2})\s+(.*?)\s*#*\s*$/;
+// A "#" or "##" line in a subtitle, possibly already escaped
+const ESCAPED_HEADING_PATTERN = /^\\*#{1,2}\s/;
+
+// The fence a line leaves open: a code block only closes on a run of the same character that is at
+// least as long as the one that opened it
+function nextFence(open: string | null, line: string): string | null {
+  const marker = line.trim().match(FENCE_PATTERN)?.[1];
+  if (!marker) {
+    return open;
+  }
+  if (!open) {
+    return marker;
+  }
+  return marker[0] === open[0] && marker.length >= open.length ? null : open;
+}
+
+function escapeHeadings(text: string): string {
+  let fence: string | null = null;
+  return text
+    .split("\n")
+    .map((line) => {
+      const escaped = !fence && ESCAPED_HEADING_PATTERN.test(line) ? `\\${line}` : line;
+      fence = nextFence(fence, line);
+      return escaped;
+    })
+    .join("\n");
+}
+
+export function parseAnchorLocation(text: string): StepAnchor | null {
+  const match = text.trim().replace(/^`|`$/g, "").match(LOCATION_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const startLine = parseInt(match[2], 10);
+  const startCol = match[3] !== undefined ? parseInt(match[3], 10) : undefined;
+  const second = match[4] !== undefined ? parseInt(match[4], 10) : undefined;
+  const endCol = match[5] !== undefined ? parseInt(match[5], 10) : undefined;
+
+  if (startCol === undefined) {
+    return { file: match[1], lines: [startLine, second ?? startLine] };
+  }
+  if (endCol === undefined) {
+    // file:10:5-18 is shorthand for columns 5-18 on line 10
+    return { file: match[1], lines: [startLine, startLine], columns: [startCol, second ?? startCol] };
+  }
+  return { file: match[1], lines: [startLine, second ?? startLine], columns: [startCol, endCol] };
+}
+
+function parseFrontMatter(lines: string[]): { fields: Record<string, string>; bodyStart: number } {
+  const fields: Record<string, string> = {};
+  if (lines[0]?.trim() !== "---") {
+    return { fields, bodyStart: 0 };
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === "---") {
+      return { fields, bodyStart: i + 1 };
+    }
+    if (line.trim() === "" || line.trim().startsWith("#")) {
+      continue;
+    }
+    const match = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (!match) {
+      throw new WalkthroughFormatError(`Expected "key: value" in front matter`, i + 1);
+    }
+    fields[match[1]] = parseScalar(match[2], i + 1);
+  }
+
+  throw new WalkthroughFormatError("Front matter is not closed with ---", 1);
+}
+
+function parseScalar(raw: string, line: number): string {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      throw new WalkthroughFormatError("Invalid quoted string", line);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function formatScalar(value: string): string {
+  return /^[^\s"'#:\-[\]{}|>&*!%@`][^"#:\n]*$/.test(value) && value === value.trim()
+    ? value
+    : JSON.stringify(value);
+}
+
+function trimBlock(lines: string[]): string {
+  return lines.join("\n").trim();
+}
+
+// Returns a plain object for the loader to validate, like JSON.parse does for .json files
+export function parseWalkthroughMarkdown(text: string): unknown {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const { fields, bodyStart } = parseFrontMatter(lines);
+
+  const steps: WalkthroughStep[] = [];
+  const chapters: WalkthroughChapter[] = [];
+  const intro: string[] = [];
+
+  let current: { step: WalkthroughStep; meta: StepMeta; body: string[] } | null = null;
+  let chapter: { chapter: WalkthroughChapter; body: string[] } | null = null;
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current) {
+      steps.push(applyMeta(current.step, current.meta, trimBlock(current.body)));
+      current = null;
+    }
+    if (chapter) {
+      const description = trimBlock(chapter.body);
+      if (description) {
+        chapter.chapter.description = description;
+      }
+      chapter = null;
+    }
+  };
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const line = lines[i];
+
+    const inFence = fence !== null;
+    fence = nextFence(fence, line);
+
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (heading && heading[1] === "#") {
+      flush();
+      chapter = { chapter: { title: heading[2], startStep: steps.length + 1 }, body: [] };
+      chapters.push(chapter.chapter);
+      continue;
+    }
+
+    if (heading && heading[1] === "##") {
+      flush();
+      const anchors = heading[2].split(/\s+\+\s+/).map(parseAnchorLocation);
+      if (anchors.some((a) => a === null)) {
+        throw new WalkthroughFormatError(
+          `Step heading "${heading[2]}" must look like file:start-end`,
+          i + 1
+        );
+      }
+
+      let meta: StepMeta = {};
+      const metaMatch = lines[i + 1]?.trim().match(META_PATTERN);
+      if (metaMatch) {
+        try {
+          meta = JSON.parse(metaMatch[1]) as StepMeta;
+        } catch {
+          throw new WalkthroughFormatError("Invalid step metadata comment", i + 2);
+        }
+        i++;
+      }
+
+      const base: WalkthroughStep = { file: "", lines: [1, 1], subtitle: "" };
+      current = {
+        step: withStepAnchors(base, anchors as StepAnchor[]),
+        meta,
+        body: [],
+      };
+      continue;
+    }
+
+    const text = !inFence && ESCAPED_HEADING_PATTERN.test(line) ? line.slice(1) : line;
+    if (current) {
+      current.body.push(text);
+    } else if (chapter) {
+      chapter.body.push(text);
+    } else {
+      intro.push(text);
+    }
+  }
+  flush();
+
+  const result: Record<string, unknown> = {};
+  if (fields.schemaVersion !== undefined) {
+    result.schemaVersion = /^\d+$/.test(fields.schemaVersion)
+      ? parseInt(fields.schemaVersion, 10)
+      : fields.schemaVersion;
+  }
+  Object.assign(result, {
+    title: fields.title,
+    description: fields.description ?? trimBlock(intro),
+  });
+  if (fields.commitSha) {
+    result.commitSha = fields.commitSha;
+  }
+  if (chapters.length > 0) {
+    result.chapters = chapters;
+  }
+  result.steps = steps;
+  return result;
+}
+
+function applyMeta(step: WalkthroughStep, meta: StepMeta, subtitle: string): WalkthroughStep {
+  const anchors = getStepAnchors(step).map((anchor, i) => {
+    const source = i === 0 ? meta : meta.anchors?.[i - 1];
+    return {
+      ...anchor,
+      symbol: source?.symbol,
+      contentHash: source?.contentHash,
+    };
+  });
+  const result = withStepAnchors({ ...step, subtitle }, anchors);
+  if (meta.duration !== undefined) {
+    result.duration = meta.duration;
+  }
+  return result;
+}
+
+export function serializeWalkthroughMarkdown(walkthrough: Walkthrough): string {
+  const out: string[] = ["---"];
+  if (walkthrough.schemaVersion !== undefined) {
+    out.push(`schemaVersion: ${walkthrough.schemaVersion}`);
+  }
+  out.push(`title: ${formatScalar(walkthrough.title)}`);
+  out.push(`description: ${formatScalar(walkthrough.description)}`);
+  if (walkthrough.commitSha) {
+    out.push(`commitSha: ${walkthrough.commitSha}`);
+  }
+  out.push("---");
+
+  const chapterStarts = new Map(getChapterRanges(walkthrough).map((r) => [r.start, r.chapter]));
+
+  walkthrough.steps.forEach((step, i) => {
+    const chapter = chapterStarts.get(i);
+    if (chapter) {
+      out.push("", `# ${chapter.title}`);
+      if (chapter.description) {
+        out.push("", escapeHeadings(chapter.description));
+      }
+    }
+
+    const anchors = getStepAnchors(step);
+    out.push("", `## ${anchors.map((a) => `\`${formatAnchorLocation(a)}\``).join(" + ")}`);
+
+    const meta: StepMeta = {};
+    if (step.symbol) {
+      meta.symbol = step.symbol;
+    }
+    if (step.contentHash) {
+      meta.contentHash = step.contentHash;
+    }
+    if (step.duration !== undefined) {
+      meta.duration = step.duration;
+    }
+    const extra = anchors.slice(1);
+    if (extra.some((a) => a.symbol || a.contentHash)) {
+      meta.anchors = extra.map((a) => ({ symbol: a.symbol, contentHash: a.contentHash }));
+    }
+    if (Object.keys(meta).length > 0) {
+      out.push(`<!-- ${JSON.stringify(meta)} -->`);
+    }
+
+    if (step.subtitle) {
+      out.push("", escapeHeadings(step.subtitle));
+    }
+  });
+
+  return out.join("\n") + "\n";
+}
+
+// Editing in place: the visual editor changes one thing at a time, and everything it doesn't touch
+// keeps the author's wording and layout. The document is cut into a head (front matter and intro)
+// and one block per chapter or step heading, running up to the next heading.
+
+export type MarkdownStepEdit =
+  | { type: "subtitle"; value: string }
+  | { type: "duration"; value: number | null };
+
+interface MarkdownBlocks {
+  eol: string;
+  head: string[];
+  blocks: Array<{ kind: "chapter" | "step"; lines: string[] }>;
+}
+
+function splitBlocks(text: string): MarkdownBlocks {
+  const lines = text.split(/\r?\n/);
+  const { bodyStart } = parseFrontMatter(lines);
+  const doc: MarkdownBlocks = {
+    eol: text.includes("\r\n") ? "\r\n" : "\n",
+    head: lines.slice(0, bodyStart),
+    blocks: [],
+  };
+
+  let current = doc.head;
+  let fence: string | null = null;
+  for (const line of lines.slice(bodyStart)) {
+    const inFence = fence !== null;
+    fence = nextFence(fence, line);
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (heading) {
+      const block = { kind: heading[1] === "#" ? ("chapter" as const) : ("step" as const), lines: [] };
+      doc.blocks.push(block);
+      current = block.lines;
+    }
+    current.push(line);
+  }
+  return doc;
+}
+
+function joinBlocks(doc: MarkdownBlocks): string {
+  return [...doc.head, ...doc.blocks.flatMap((b) => b.lines)].join(doc.eol);
+}
+
+function stepBlockIndex(doc: MarkdownBlocks, stepIndex: number): number {
+  let seen = -1;
+  return doc.blocks.findIndex((b) => b.kind === "step" && ++seen === stepIndex);
+}
+
+// Same rule as shiftChapters: a chapter heading with no step before the next heading goes
+function dropEmptyChapters(doc: MarkdownBlocks): void {
+  doc.blocks = doc.blocks.filter((b, i) => b.kind === "step" || doc.blocks[i + 1]?.kind === "step");
+}
+
+// Replaces the non-blank lines from `from` on with `value`, keeping the blank lines around them
+function replaceContent(lines: string[], from: number, value: string): void {
+  const valueLines = value ? value.split("\n") : [];
+  let first = -1;
+  let last = -1;
+  for (let i = from; i < lines.length; i++) {
+    if (lines[i].trim() !== "") {
+      first = first === -1 ? i : first;
+      last = i;
+    }
+  }
+  if (first !== -1) {
+    lines.splice(first, last - first + 1, ...valueLines);
+  } else if (valueLines.length > 0) {
+    lines.splice(from, 0, "", ...valueLines);
+  }
+}
+
+export function setMarkdownField(text: string, field: "title" | "description", value: string): string {
+  const doc = splitBlocks(text);
+  const closing = doc.head.findIndex((line, i) => i > 0 && line.trim() === "---");
+  const frontMatter = closing === -1 ? [] : doc.head.slice(1, closing);
+  const index = frontMatter.findIndex((line) => line.startsWith(`${field}:`));
+  const line = `${field}: ${formatScalar(value)}`;
+
+  if (index !== -1) {
+    doc.head[index + 1] = line;
+  } else if (field === "description" && doc.head.slice(closing + 1).some((l) => l.trim() !== "")) {
+    // Written as the text before the first heading rather than in front matter
+    replaceContent(doc.head, closing + 1, escapeHeadings(value));
+  } else if (closing !== -1) {
+    doc.head.splice(closing, 0, line);
+  }
+  return joinBlocks(doc);
+}
+
+export function editMarkdownStep(text: string, stepIndex: number, edit: MarkdownStepEdit): string {
+  const doc = splitBlocks(text);
+  const block = doc.blocks[stepBlockIndex(doc, stepIndex)];
+  if (!block) {
+    return text;
+  }
+  const metaMatch = block.lines[1]?.trim().match(META_PATTERN);
+
+  if (edit.type === "subtitle") {
+    replaceContent(block.lines, metaMatch ? 2 : 1, escapeHeadings(edit.value));
+    return joinBlocks(doc);
+  }
+
+  const meta = metaMatch ? (JSON.parse(metaMatch[1]) as StepMeta) : {};
+  if (edit.value === null) {
+    delete meta.duration;
+  } else {
+    meta.duration = edit.value;
+  }
+  const metaLine = Object.keys(meta).length > 0 ? `<!-- ${JSON.stringify(meta)} -->` : null;
+  if (metaMatch) {
+    block.lines.splice(1, 1, ...(metaLine ? [metaLine] : []));
+  } else if (metaLine) {
+    block.lines.splice(1, 0, metaLine);
+  }
+  return joinBlocks(doc);
+}
+
+export function deleteMarkdownStep(text: string, stepIndex: number): string {
+  const doc = splitBlocks(text);
+  const index = stepBlockIndex(doc, stepIndex);
+  if (index === -1) {
+    return text;
+  }
+  doc.blocks.splice(index, 1);
+  dropEmptyChapters(doc);
+  return joinBlocks(doc);
+}
+
+// Chapter headings stay where they are, which moves chapter boundaries the same way
+// moveChapterShift does for JSON walkthroughs
+export function moveMarkdownStep(text: string, from: number, to: number): string {
+  const doc = splitBlocks(text);
+  const index = stepBlockIndex(doc, from);
+  if (index === -1 || from === to) {
+    return text;
+  }
+  const [moved] = doc.blocks.splice(index, 1);
+  dropEmptyChapters(doc);
+
+  let at = stepBlockIndex(doc, to);
+  if (at === -1) {
+    at = doc.blocks.length;
+  } else if (to > from) {
+    // Moving down onto a chapter's first step stops short of the chapter
+    while (at > 0 && doc.blocks[at - 1].kind === "chapter") {
+      at--;
+    }
+  }
+  doc.blocks.splice(at, 0, moved);
+  return joinBlocks(doc);
+}
@@ -0,0 +1,67 @@
+// Walkthrough files carry a `schemaVersion`. Files written before the field existed are version 0.
+// Each migration upgrades a document by exactly one version, so older files walk the whole chain.
+export const CURRENT_SCHEMA_VERSION = 1;
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, Migration> = {
+  // 0 -> 1: the format itself is unchanged, the document just starts declaring its version
+  0: (data) => data,
+};
+
+export class UnsupportedSchemaVersionError extends Error {
+  constructor(readonly version: number) {
+    super(
+      `This walkthrough uses format version ${version}, but this extension only understands up to version ${CURRENT_SCHEMA_VERSION}. Upgrade the Code Walkthrough extension to open it.`
+    );
+  }
+}
+
+export interface MigrationResult {
+  data: unknown;
+  fromVersion: number;
+  migrated: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function getSchemaVersion(data: unknown): number {
+  if (isObject(data) && typeof data.schemaVersion === "number") {
+    return data.schemaVersion;
+  }
+  return 0;
+}
+
+// Upgrades a parsed document in memory. Anything that isn't an object with a whole-number
+// version is passed through untouched so structural validation can report it.
+export function migrateWalkthrough(data: unknown): MigrationResult {
+  if (
+    !isObject(data) ||
+    (data.schemaVersion !== undefined &&
+      !(Number.isInteger(data.schemaVersion) && (data.schemaVersion as number) >= 0))
+  ) {
+    return { data, fromVersion: 0, migrated: false };
+  }
+
+  const fromVersion = getSchemaVersion(data);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionError(fromVersion);
+  }
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    return { data, fromVersion, migrated: false };
+  }
+
+  let current = data;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration from walkthrough format version ${version}`);
+    }
+    const { schemaVersion: _, ...rest } = migration(current);
+    current = { schemaVersion: version + 1, ...rest };
+  }
+
+  return { data: current, fromVersion, migrated: true };
+}
@@ -0,0 +1,195 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { WalkthroughFile } from "./types";
+
+export const LEARNING_PATH_GLOB = ".walkthrough/paths/*.json";
+
+export interface LearningPathEntry {
+  // Walkthrough id, e.g. "auth" for .walkthrough/auth.json. Written in a path file, a bare name
+  // means the path's own workspace folder and "api/auth" another folder; see resolveWalkthroughRef
+  walkthrough: string;
+  // Ids of walkthroughs that should be completed first
+  prerequisites?: string[];
+}
+
+export interface LearningPath {
+  title: string;
+  description?: string;
+  walkthroughs: LearningPathEntry[];
+}
+
+export interface LearningPathFile {
+  uri: string;
+  path: LearningPath;
+}
+
+// The file name without extension, prefixed with the workspace folder's name outside the first
+// folder ("api/auth"), the same way step paths point into other folders. CodeTour files keep their
+// extension so a tour and a walkthrough with the same name don't share progress.
+export function getWalkthroughId(fsPath: string): string {
+  const ext = path.extname(fsPath);
+  const name = ext === ".tour" ? path.basename(fsPath) : path.basename(fsPath, ext);
+  return qualifyWalkthroughId(name, vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath)));
+}
+
+function qualifyWalkthroughId(name: string, folder: vscode.WorkspaceFolder | undefined): string {
+  return folder && folder.index > 0 ? `${folder.name}/${name}` : name;
+}
+
+// The id `ref` stands for when written in a file homed in `home`: a bare name is a walkthrough in
+// `home`, and "folder/name" one in the named workspace folder
+export function resolveWalkthroughRef(ref: string, home: vscode.WorkspaceFolder | undefined): string {
+  const slash = ref.indexOf("/");
+  const folder =
+    slash > 0 ? vscode.workspace.workspaceFolders?.find((f) => f.name === ref.slice(0, slash)) : undefined;
+  return folder ? qualifyWalkthroughId(ref.slice(slash + 1), folder) : qualifyWalkthroughId(ref, home);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+// Entries may be written as a bare id or as { walkthrough, prerequisites }
+function parseLearningPath(data: unknown): LearningPath | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  const raw = data as Record<string, unknown>;
+  if (typeof raw.title !== "string" || !Array.isArray(raw.walkthroughs)) {
+    return null;
+  }
+
+  const walkthroughs: LearningPathEntry[] = [];
+  for (const entry of raw.walkthroughs) {
+    if (typeof entry === "string") {
+      walkthroughs.push({ walkthrough: entry });
+      continue;
+    }
+    const obj = entry as Record<string, unknown> | null;
+    if (
+      !obj ||
+      typeof obj.walkthrough !== "string" ||
+      (obj.prerequisites !== undefined && !isStringArray(obj.prerequisites))
+    ) {
+      return null;
+    }
+    walkthroughs.push({
+      walkthrough: obj.walkthrough,
+      prerequisites: obj.prerequisites as string[] | undefined,
+    });
+  }
+
+  return {
+    title: raw.title,
+    description: typeof raw.description === "string" ? raw.description : undefined,
+    walkthroughs,
+  };
+}
+
+export async function discoverLearningPaths(
+  walkthroughFiles: WalkthroughFile[]
+): Promise<LearningPathFile[]> {
+  const files = await vscode.workspace.findFiles(LEARNING_PATH_GLOB, "**/node_modules/**");
+  const known = new Set(walkthroughFiles.map((f) => getWalkthroughId(f.uri)));
+  const results: LearningPathFile[] = [];
+
+  for (const file of files) {
+    const fileName = path.basename(file.fsPath);
+    try {
+      const raw = await vscode.workspace.fs.readFile(file);
+      const parsed = parseLearningPath(JSON.parse(Buffer.from(raw).toString("utf-8")));
+      if (!parsed) {
+        vscode.window.showWarningMessage(
+          `Invalid learning path: ${fileName}: expected "title" and a "walkthroughs" list`
+        );
+        continue;
+      }
+
+      // From here on entries hold full ids, so they compare directly with getWalkthroughId
+      const home = vscode.workspace.getWorkspaceFolder(file);
+      const learningPath: LearningPath = {
+        ...parsed,
+        walkthroughs: parsed.walkthroughs.map((entry) => ({
+          walkthrough: resolveWalkthroughRef(entry.walkthrough, home),
+          prerequisites: entry.prerequisites?.map((id) => resolveWalkthroughRef(id, home)),
+        })),
+      };
+
+      const unknown = learningPath.walkthroughs
+        .flatMap((e) => [e.walkthrough, ...(e.prerequisites ?? [])])
+        .filter((id) => !known.has(id));
+      if (unknown.length > 0) {
+        vscode.window.showWarningMessage(
+          `Learning path ${fileName} references unknown walkthrough(s): ${[...new Set(unknown)].join(", ")}`
+        );
+      }
+
+      results.push({ uri: file.fsPath, path: learningPath });
+    } catch {
+      vscode.window.showWarningMessage(`Failed to parse: ${fileName}`);
+    }
+  }
+
+  return results;
+}
+
+export interface PathEntryStatus {
+  entry: LearningPathEntry;
+  file: WalkthroughFile | null;
+  completed: boolean;
+  // Prerequisites that haven't been completed yet
+  pending: string[];
+}
+
+export function resolveLearningPath(
+  learningPath: LearningPath,
+  walkthroughFiles: WalkthroughFile[],
+  isCompleted: (id: string) => boolean
+): PathEntryStatus[] {
+  const byId = new Map(walkthroughFiles.map((f) => [getWalkthroughId(f.uri), f]));
+  return learningPath.walkthroughs.map((entry) => ({
+    entry,
+    file: byId.get(entry.walkthrough) ?? null,
+    completed: isCompleted(entry.walkthrough),
+    pending: (entry.prerequisites ?? []).filter((id) => !isCompleted(id)),
+  }));
+}
+
+// The entry after `id` in the first path that contains it, skipping ids with no walkthrough file
+export function findNextInPath(
+  paths: LearningPathFile[],
+  id: string,
+  walkthroughFiles: WalkthroughFile[]
+): { learningPath: LearningPath; file: WalkthroughFile } | null {
+  const byId = new Map(walkthroughFiles.map((f) => [getWalkthroughId(f.uri), f]));
+  for (const { path: learningPath } of paths) {
+    const index = learningPath.walkthroughs.findIndex((e) => e.walkthrough === id);
+    if (index === -1) {
+      continue;
+    }
+    for (const entry of learningPath.walkthroughs.slice(index + 1)) {
+      const file = byId.get(entry.walkthrough);
+      if (file) {
+        return { learningPath, file };
+      }
+    }
+  }
+  return null;
+}
+
+// Uncompleted prerequisites declared for `id` across all paths
+export function findPendingPrerequisites(
+  paths: LearningPathFile[],
+  id: string,
+  isCompleted: (id: string) => boolean
+): string[] {
+  const pending = new Set<string>();
+  for (const { path: learningPath } of paths) {
+    for (const entry of learningPath.walkthroughs) {
+      if (entry.walkthrough === id) {
+        (entry.prerequisites ?? []).filter((p) => !isCompleted(p)).forEach((p) => pending.add(p));
+      }
+    }
+  }
+  return [...pending];
+}
@@ -0,0 +1,35 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+
+// Lines are 1-indexed and inclusive. Columns are 1-based cursor columns (as shown in the
+// status bar) where the end column is exclusive; without columns the whole lines are covered.
+export function toDocumentRange(
+  doc: vscode.TextDocument,
+  lines: [number, number],
+  columns?: [number, number]
+): vscode.Range {
+  const startLine = Math.min(doc.lineCount - 1, Math.max(0, lines[0] - 1));
+  const endLine = Math.min(doc.lineCount - 1, Math.max(startLine, lines[1] - 1));
+  const endLength = doc.lineAt(endLine).text.length;
+
+  if (!columns) {
+    return new vscode.Range(startLine, 0, endLine, endLength);
+  }
+
+  const startChar = Math.min(doc.lineAt(startLine).text.length, Math.max(0, columns[0] - 1));
+  const endChar = Math.min(endLength, Math.max(0, columns[1] - 1));
+  return new vscode.Range(startLine, startChar, endLine, endChar);
+}
+
+export function hashRange(
+  doc: vscode.TextDocument,
+  lines: [number, number],
+  columns?: [number, number]
+): string {
+  const content = doc.getText(toDocumentRange(doc, lines, columns));
+  return crypto
+    .createHash("sha256")
+    .update(content)
+    .digest("hex")
+    .slice(0, 12);
+}
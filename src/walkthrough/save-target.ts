@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Walkthrough } from "./types";
+import { loadWalkthrough } from "./loader";
+import { CURRENT_SCHEMA_VERSION } from "./migrate";
+
+// File name (without extension) for a new walkthrough with this title
+export function walkthroughSlug(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return slug || "walkthrough";
+}
+
+function walkthroughFileName(name: string): string {
+  const format = vscode.workspace
+    .getConfiguration("codeWalkthrough")
+    .get<string>("recorder.fileFormat", "json");
+  return `${name}.${format === "markdown" ? "md" : "json"}`;
+}
+
+// Walkthroughs are identified by file name without extension, so either format counts as taken
+async function findExistingWalkthrough(walkthroughDir: string, name: string): Promise<string | null> {
+  for (const ext of ["json", "md"]) {
+    const filePath = path.join(walkthroughDir, `${name}.${ext}`);
+    try {
+      await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+      return filePath;
+    } catch {
+      // Not there; try the other format
+    }
+  }
+  return null;
+}
+
+// Where a new walkthrough goes and what gets written there. When a walkthrough with the same name
+// exists, the user decides whether to overwrite it, save under another name, or append the new
+// steps to it. Returns null if they cancel.
+export async function chooseSaveTarget(
+  walkthroughDir: string,
+  name: string,
+  created: Walkthrough
+): Promise<{ filePath: string; walkthrough: Walkthrough } | null> {
+  const existingPath = await findExistingWalkthrough(walkthroughDir, name);
+  if (!existingPath) {
+    return { filePath: path.join(walkthroughDir, walkthroughFileName(name)), walkthrough: created };
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `.walkthrough/${path.basename(existingPath)} already exists.`,
+    {
+      modal: true,
+      detail: "Overwrite replaces it, Save As keeps both, and Merge appends the new steps to the existing walkthrough.",
+    },
+    "Overwrite",
+    "Save As...",
+    "Merge"
+  );
+
+  if (choice === "Overwrite") {
+    return { filePath: existingPath, walkthrough: created };
+  }
+
+  if (choice === "Save As...") {
+    const newName = await vscode.window.showInputBox({
+      prompt: "File name for the walkthrough (without extension)",
+      value: `${name}-2`,
+      validateInput: async (value) => {
+        if (!/^[\w.-]+$/.test(value)) {
+          return "Use letters, digits, dots, dashes, and underscores only";
+        }
+        return (await findExistingWalkthrough(walkthroughDir, value))
+          ? `A walkthrough named ${value} already exists`
+          : null;
+      },
+    });
+    return newName
+      ? { filePath: path.join(walkthroughDir, walkthroughFileName(newName)), walkthrough: created }
+      : null;
+  }
+
+  if (choice === "Merge") {
+    const existing = await loadWalkthrough(existingPath);
+    if (!existing) {
+      return null;
+    }
+    return {
+      filePath: existingPath,
+      walkthrough: {
+        ...existing,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        // The old steps were recorded against the existing commit and the new ones against HEAD;
+        // a pin is only kept when both agree, otherwise git remapping would misplace one side
+        commitSha: existing.commitSha === created.commitSha ? existing.commitSha : undefined,
+        steps: [...existing.steps, ...created.steps],
+      },
+    };
+  }
+
+  return null;
+}
@@ -1,26 +1,47 @@
 import * as vscode from "vscode";
-import * as path from "path";
-import * as crypto from "crypto";
-import { WalkthroughStep } from "./types";
+import { StepAnchor, WalkthroughStep, getStepAnchors, withStepAnchors } from "./types";
+import { hashRange } from "./range";
+import { getHomeFolder, locateStepFile } from "./workspace";
 import {
   getHeadSha,
   computeLineMappings,
   remapLineRange,
 } from "../git/git";
 
+export type StaleStatus = "fresh" | "drifted" | "missing" | "git-resolved";
+
+export interface AnchorCheckResult {
+  status: StaleStatus;
+  resolvedLines?: [number, number];
+  detail?: string;
+}
+
 export interface StaleCheckResult {
   stepIndex: number;
-  status: "fresh" | "drifted" | "missing" | "git-resolved";
+  status: StaleStatus;
   resolvedLines?: [number, number];
   detail?: string;
+  // One entry per anchor (primary first) when the step has additional anchors
+  anchors?: AnchorCheckResult[];
 }
 
+const STATUS_SEVERITY: Record<StaleStatus, number> = {
+  fresh: 0,
+  "git-resolved": 1,
+  drifted: 2,
+  missing: 3,
+};
+
+type MappingsCache = Map<string, Awaited<ReturnType<typeof computeLineMappings>>>;
+
+// `home` is the walkthrough's workspace folder: step paths resolve against it and its repository
+// supplies HEAD
 export async function checkStaleness(
   steps: WalkthroughStep[],
-  commitSha?: string
+  commitSha?: string,
+  home: vscode.WorkspaceFolder | undefined = getHomeFolder()
 ): Promise<StaleCheckResult[]> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders) {
+  if (!home) {
     return steps.map((_, i) => ({
       stepIndex: i,
       status: "missing" as const,
@@ -28,139 +49,147 @@ export async function checkStaleness(
     }));
   }
 
-  const rootPath = workspaceFolders[0].uri.fsPath;
   const results: StaleCheckResult[] = [];
 
-  const headSha = await getHeadSha();
-  const canUseGit = !!commitSha && !!headSha && commitSha !== headSha;
-  const mappingsCache = new Map<string, Awaited<ReturnType<typeof computeLineMappings>>>();
+  const headSha = await getHeadSha(home.uri.fsPath);
+  const gitRange =
+    commitSha && headSha && commitSha !== headSha
+      ? { from: commitSha, to: headSha }
+      : null;
+  const mappingsCache: MappingsCache = new Map();
 
   for (let i = 0; i < steps.length; i++) {
-    const step = steps[i];
-    const filePath = path.resolve(rootPath, step.file);
-    const uri = vscode.Uri.file(filePath);
+    const anchors = getStepAnchors(steps[i]);
+    const anchorResults: AnchorCheckResult[] = [];
+    for (const anchor of anchors) {
+      anchorResults.push(await checkAnchor(anchor, home, gitRange, mappingsCache));
+    }
 
-    try {
-      const doc = await vscode.workspace.openTextDocument(uri);
+    const [primary] = anchorResults;
+    if (anchorResults.length === 1) {
+      results.push({ stepIndex: i, ...primary });
+      continue;
+    }
 
-      if (!step.contentHash) {
-        results.push({ stepIndex: i, status: "fresh" });
-        continue;
-      }
+    const worst = anchorResults.reduce((a, b) =>
+      STATUS_SEVERITY[b.status] > STATUS_SEVERITY[a.status] ? b : a
+    );
+    results.push({
+      stepIndex: i,
+      status: worst.status,
+      resolvedLines: primary.resolvedLines,
+      detail: worst.detail,
+      anchors: anchorResults,
+    });
+  }
 
-      const hashMatch = checkContentHash(doc, step);
-      if (hashMatch) {
-        results.push({ stepIndex: i, status: "fresh" });
-        continue;
-      }
+  return results;
+}
 
-      if (canUseGit) {
-        let mappings = mappingsCache.get(step.file);
-        if (mappings === undefined) {
-          mappings = await computeLineMappings(commitSha, headSha, step.file);
-          mappingsCache.set(step.file, mappings);
-        }
-
-        if (mappings.length > 0) {
-          const [newStart, newEnd] = remapLineRange(
-            step.lines[0],
-            step.lines[1],
-            mappings
-          );
-
-          const clampedStart = Math.max(1, newStart);
-          const clampedEnd = Math.min(doc.lineCount, Math.max(clampedStart, newEnd));
-
-          const remappedContent = doc.getText(
-            new vscode.Range(
-              clampedStart - 1,
-              0,
-              clampedEnd - 1,
-              doc.lineAt(clampedEnd - 1).text.length
-            )
-          );
-          const remappedHash = crypto
-            .createHash("sha256")
-            .update(remappedContent)
-            .digest("hex")
-            .slice(0, 12);
-
-          if (remappedHash === step.contentHash) {
-            results.push({
-              stepIndex: i,
-              status: "git-resolved",
-              resolvedLines: [clampedStart, clampedEnd],
-              detail: `Git resolved: lines shifted to ${clampedStart}-${clampedEnd}`,
-            });
-            continue;
-          }
-
-          results.push({
-            stepIndex: i,
-            status: "drifted",
-            resolvedLines: [clampedStart, clampedEnd],
-            detail: `Git remapped to ${clampedStart}-${clampedEnd}, but content also changed`,
-          });
-          continue;
-        }
-      }
+async function checkAnchor(
+  anchor: StepAnchor,
+  home: vscode.WorkspaceFolder,
+  gitRange: { from: string; to: string } | null,
+  mappingsCache: MappingsCache
+): Promise<AnchorCheckResult> {
+  const location = locateStepFile(anchor.file, home);
+  if (!location) {
+    return { status: "missing", detail: `File not found: ${anchor.file}` };
+  }
 
-      const symbolMatch = await findBySymbol(doc, step);
-      if (symbolMatch) {
-        results.push({
-          stepIndex: i,
-          status: "drifted",
-          resolvedLines: symbolMatch,
-          detail: `Lines shifted. Symbol "${step.symbol}" found at ${symbolMatch[0]}-${symbolMatch[1]}`,
-        });
-        continue;
+  let doc: vscode.TextDocument;
+  try {
+    doc = await vscode.workspace.openTextDocument(vscode.Uri.file(location.fsPath));
+  } catch {
+    return { status: "missing", detail: `File not found: ${anchor.file}` };
+  }
+
+  if (!anchor.contentHash) {
+    return { status: "fresh" };
+  }
+
+  if (hashRange(doc, anchor.lines, anchor.columns) === anchor.contentHash) {
+    return { status: "fresh" };
+  }
+
+  if (gitRange) {
+    let mappings = mappingsCache.get(location.fsPath);
+    if (mappings === undefined) {
+      mappings = await computeLineMappings(
+        location.root,
+        gitRange.from,
+        gitRange.to,
+        location.relativePath
+      );
+      mappingsCache.set(location.fsPath, mappings);
+    }
+
+    if (mappings.length > 0) {
+      const [newStart, newEnd] = remapLineRange(
+        anchor.lines[0],
+        anchor.lines[1],
+        mappings
+      );
+
+      const clampedStart = Math.max(1, newStart);
+      const clampedEnd = Math.min(doc.lineCount, Math.max(clampedStart, newEnd));
+
+      if (hashRange(doc, [clampedStart, clampedEnd], anchor.columns) === anchor.contentHash) {
+        return {
+          status: "git-resolved",
+          resolvedLines: [clampedStart, clampedEnd],
+          detail: `Git resolved: lines shifted to ${clampedStart}-${clampedEnd}`,
+        };
       }
 
-      results.push({
-        stepIndex: i,
+      return {
         status: "drifted",
-        detail: "Content hash mismatch. Code may have changed since walkthrough was created.",
-      });
-    } catch {
-      results.push({
-        stepIndex: i,
-        status: "missing",
-        detail: `File not found: ${step.file}`,
-      });
+        resolvedLines: [clampedStart, clampedEnd],
+        detail: `Git remapped to ${clampedStart}-${clampedEnd}, but content also changed`,
+      };
     }
   }
 
-  return results;
+  const symbolMatch = await findBySymbol(doc, anchor);
+  if (symbolMatch) {
+    return {
+      status: "drifted",
+      resolvedLines: symbolMatch,
+      detail: `Lines shifted. Symbol "${anchor.symbol}" found at ${symbolMatch[0]}-${symbolMatch[1]}`,
+    };
+  }
+
+  return {
+    status: "drifted",
+    detail: "Content hash mismatch. Code may have changed since walkthrough was created.",
+  };
 }
 
-function checkContentHash(
-  doc: vscode.TextDocument,
-  step: WalkthroughStep
-): boolean {
-  const startLine = Math.max(0, step.lines[0] - 1);
-  const endLine = Math.min(doc.lineCount - 1, step.lines[1] - 1);
-
-  const range = new vscode.Range(
-    startLine,
-    0,
-    endLine,
-    doc.lineAt(endLine).text.length
-  );
-  const content = doc.getText(range);
-  const hash = crypto
-    .createHash("sha256")
-    .update(content)
-    .digest("hex")
-    .slice(0, 12);
-
-  return hash === step.contentHash;
+// Substitutes remapped line ranges so playback lands on where the code lives now
+export function applyResolvedLines(
+  step: WalkthroughStep,
+  result: StaleCheckResult | undefined
+): WalkthroughStep {
+  if (!result) {
+    return step;
+  }
+
+  const anchorResults = result.anchors ?? [result];
+  const anchors = getStepAnchors(step).map((anchor, i) => {
+    const r = anchorResults[i];
+    const usable =
+      r && (r.status === "git-resolved" || r.status === "drifted") && r.resolvedLines;
+    return usable ? { ...anchor, lines: r.resolvedLines as [number, number] } : anchor;
+  });
+
+  return withStepAnchors(step, anchors);
 }
 
 async function findBySymbol(
   doc: vscode.TextDocument,
-  step: WalkthroughStep
+  anchor: StepAnchor
 ): Promise<[number, number] | null> {
-  if (!step.symbol) {
+  if (!anchor.symbol) {
     return null;
   }
 
@@ -174,9 +203,9 @@ async function findBySymbol(
       return null;
     }
 
-    const match = findSymbolByName(symbols, step.symbol);
+    const match = findSymbolByName(symbols, anchor.symbol);
     if (match) {
-      const lineSpan = step.lines[1] - step.lines[0];
+      const lineSpan = anchor.lines[1] - anchor.lines[0];
       return [match.range.start.line + 1, match.range.start.line + 1 + lineSpan];
     }
   } catch {
@@ -0,0 +1,56 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { StepAnchor, WalkthroughFile, WalkthroughStep, getStepAnchors } from "./types";
+import { getHomeFolder, resolveStepFile } from "./workspace";
+
+export interface IndexedStep {
+  file: WalkthroughFile;
+  stepIndex: number;
+  step: WalkthroughStep;
+  // The anchor of the step that lies in the indexed source file
+  anchor: StepAnchor;
+}
+
+// Every anchor of every discovered walkthrough, keyed by the absolute path of the source file
+export class StepIndex {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  private byPath = new Map<string, IndexedStep[]>();
+
+  update(files: WalkthroughFile[]): void {
+    const byPath = new Map<string, IndexedStep[]>();
+    for (const file of files) {
+      const home = getHomeFolder(file.uri);
+      file.walkthrough.steps.forEach((step, stepIndex) => {
+        for (const anchor of getStepAnchors(step)) {
+          const filePath = resolveStepFile(anchor.file, home);
+          if (filePath) {
+            byPath.set(filePath, [...(byPath.get(filePath) ?? []), { file, stepIndex, step, anchor }]);
+          }
+        }
+      });
+    }
+    this.byPath = byPath;
+    this.onDidChangeEmitter.fire();
+  }
+
+  forPath(fsPath: string): IndexedStep[] {
+    return this.byPath.get(path.resolve(fsPath)) ?? [];
+  }
+
+  forDocument(uri: vscode.Uri): IndexedStep[] {
+    return uri.scheme === "file" ? this.forPath(uri.fsPath) : [];
+  }
+
+  // `line` is 0-based, as in vscode.Position
+  at(uri: vscode.Uri, line: number): IndexedStep[] {
+    return this.forDocument(uri).filter(
+      (e) => line >= e.anchor.lines[0] - 1 && line <= e.anchor.lines[1] - 1
+    );
+  }
+
+  dispose(): void {
+    this.onDidChangeEmitter.dispose();
+  }
+}
@@ -0,0 +1,254 @@
+// Subtitles are Markdown. Besides ordinary web links they can point into the workspace:
+//
+//   [the handler](src/server.ts#L10-20)   file and optional line range (GitHub's #L10-L20 also works)
+//   [Router](symbol:Router)               workspace symbol
+//   [step 4](step:4)                      another step of the same walkthrough (1-based)
+//   [auth](walkthrough:auth#2)            another walkthrough by id, optionally at a step
+//
+// Rendering escapes all source text first and only emits a fixed set of tags, so subtitles
+// can't inject markup into the panel or an exported page.
+
+export type SubtitleLink =
+  | { kind: "code"; file: string; lines?: [number, number] }
+  | { kind: "symbol"; name: string }
+  | { kind: "step"; step: number }
+  | { kind: "walkthrough"; id: string; step?: number }
+  | { kind: "external"; url: string };
+
+export interface SubtitleRenderOptions {
+  // `label` is already HTML. Return the markup for the link, e.g. an <a> with a handler.
+  renderLink(link: SubtitleLink, label: string): string;
+  // Lets callers draw fenced blocks themselves (e.g. diagrams). `code` is already escaped;
+  // return null to fall back to a plain code block.
+  renderFence?(language: string, code: string): string | null;
+}
+
+const INLINE_PATTERN = /(`+)([\s\S]*?)\1|\[([^\]]*)\]\(([^)\s]+)\)/g;
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w-]*)\s*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+export function parseSubtitleLink(href: string): SubtitleLink | null {
+  if (/^(https?:|mailto:)/i.test(href)) {
+    return { kind: "external", url: href };
+  }
+
+  const symbol = href.match(/^symbol:(.+)$/);
+  if (symbol) {
+    return { kind: "symbol", name: safeDecode(symbol[1]) };
+  }
+
+  const step = href.match(/^step:(\d+)$/);
+  if (step) {
+    return { kind: "step", step: parseInt(step[1], 10) };
+  }
+
+  const walkthrough = href.match(/^walkthrough:([^#]+)(?:#(\d+))?$/);
+  if (walkthrough) {
+    return {
+      kind: "walkthrough",
+      id: safeDecode(walkthrough[1]),
+      step: walkthrough[2] !== undefined ? parseInt(walkthrough[2], 10) : undefined,
+    };
+  }
+
+  // Any other scheme (javascript:, command:, file: ...) is not a link we follow
+  if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith("/") || href.startsWith("#")) {
+    return null;
+  }
+
+  const code = href.match(/^(?:\.\/)?([^#]+?)(?:#L(\d+)(?:-L?(\d+))?)?$/);
+  if (!code) {
+    return null;
+  }
+  const file = safeDecode(code[1]);
+  if (code[2] === undefined) {
+    return { kind: "code", file };
+  }
+  const start = parseInt(code[2], 10);
+  const end = code[3] !== undefined ? parseInt(code[3], 10) : start;
+  return { kind: "code", file, lines: [start, Math.max(start, end)] };
+}
+
+export function describeSubtitleLink(link: SubtitleLink): string {
+  switch (link.kind) {
+    case "code":
+      return link.lines ? `${link.file}:${link.lines[0]}-${link.lines[1]}` : link.file;
+    case "symbol":
+      return `Symbol ${link.name}`;
+    case "step":
+      return `Step ${link.step}`;
+    case "walkthrough":
+      return link.step ? `Walkthrough ${link.id}, step ${link.step}` : `Walkthrough ${link.id}`;
+    case "external":
+      return link.url;
+  }
+}
+
+// Exports link code references in the #L10-L20 form that GitHub and most code hosts understand
+export function codeLinkHref(link: { file: string; lines?: [number, number] }): string {
+  const file = encodeURI(link.file);
+  if (!link.lines) {
+    return file;
+  }
+  const [start, end] = link.lines;
+  return start === end ? `${file}#L${start}` : `${file}#L${start}-L${end}`;
+}
+
+function renderEmphasis(escaped: string): string {
+  return escaped
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/__(?=\S)([\s\S]*?\S)__/g, "<strong>$1</strong>")
+    .replace(/(^|[^*\w])\*(?=\S)([\s\S]*?\S)\*(?!\w)/g, "$1<em>$2</em>")
+    .replace(/(^|[^_\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, "$1<em>$2</em>");
+}
+
+// Code spans and links are swapped for placeholders first so emphasis can wrap them
+// without looking inside them
+function renderInline(text: string, options: SubtitleRenderOptions): string {
+  const tokens: string[] = [];
+  const source = text.replace(/\u0000/g, "").replace(INLINE_PATTERN, (_whole, ticks, code, label, href) => {
+    if (ticks !== undefined) {
+      tokens.push(`<code>${escapeHtml(code.trim())}</code>`);
+    } else {
+      const labelHtml = renderEmphasis(escapeHtml(label));
+      const link = parseSubtitleLink(href);
+      tokens.push(link ? options.renderLink(link, labelHtml) : labelHtml);
+    }
+    return `\u0000${tokens.length - 1}\u0000`;
+  });
+
+  return renderEmphasis(escapeHtml(source)).replace(/\u0000(\d+)\u0000/g, (_m, i) => tokens[Number(i)]);
+}
+
+export function renderSubtitleHtml(markdown: string, options: SubtitleRenderOptions): string {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${renderInline(paragraph.join("\n"), options)}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      const tag = list.ordered ? "ol" : "ul";
+      const items = list.items.map((item) => `<li>${renderInline(item, options)}</li>`).join("");
+      blocks.push(`<${tag}>${items}</${tag}>`);
+      list = null;
+    }
+    if (quote.length > 0) {
+      blocks.push(`<blockquote>${renderInline(quote.join("\n"), options)}</blockquote>`);
+      quote = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      flush();
+      const body: string[] = [];
+      while (++i < lines.length && !new RegExp(`^\\s*${fence[1]}\\s*$`).test(lines[i])) {
+        body.push(lines[i]);
+      }
+      const code = escapeHtml(body.join("\n"));
+      const custom = fence[2] ? options.renderFence?.(fence[2], code) : null;
+      const langClass = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : "";
+      blocks.push(custom ?? `<pre><code${langClass}>${code}</code></pre>`);
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      // Subtitles sit under the panel's own headings, so keep theirs small
+      const level = Math.min(6, heading[1].length + 3);
+      blocks.push(`<h${level}>${renderInline(heading[2], options)}</h${level}>`);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[3]);
+      continue;
+    }
+
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += `\n${line.trim()}`;
+      continue;
+    }
+
+    const quoteLine = line.match(/^\s*>\s?(.*)$/);
+    if (quoteLine) {
+      if (paragraph.length > 0 || list) {
+        flush();
+      }
+      quote.push(quoteLine[1]);
+      continue;
+    }
+
+    if (list || quote.length > 0) {
+      flush();
+    }
+    paragraph.push(line);
+  }
+  flush();
+
+  return blocks.join("\n");
+}
+
+// Rewrites links in Markdown source, leaving code spans and fenced blocks untouched
+export function rewriteSubtitleLinks(
+  markdown: string,
+  rewrite: (link: SubtitleLink, text: string) => string
+): string {
+  let inFence = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (FENCE_PATTERN.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      if (inFence) {
+        return line;
+      }
+      return line.replace(INLINE_PATTERN, (whole, ticks, _code, text, href) => {
+        if (ticks !== undefined) {
+          return whole;
+        }
+        const link = parseSubtitleLink(href);
+        return link ? rewrite(link, text) : text;
+      });
+    })
+    .join("\n");
+}
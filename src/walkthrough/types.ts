@@ -1,20 +1,149 @@
+export interface StepAnchor {
+  file: string;
+  lines: [number, number];
+  // 1-based start column on the first line and exclusive end column on the last line
+  columns?: [number, number];
+  symbol?: string;
+  contentHash?: string;
+}
+
 export interface WalkthroughStep {
   file: string;
   lines: [number, number];
+  columns?: [number, number];
   symbol?: string;
   contentHash?: string;
   subtitle: string;
   duration?: number;
+  // Additional locations shown side by side with the primary file/lines
+  anchors?: StepAnchor[];
+}
+
+export interface WalkthroughChapter {
+  title: string;
+  description?: string;
+  // 1-based number of the first step; the chapter runs until the next chapter starts
+  startStep: number;
 }
 
 export interface Walkthrough {
+  schemaVersion?: number;
   title: string;
   description: string;
   commitSha?: string;
+  chapters?: WalkthroughChapter[];
   steps: WalkthroughStep[];
 }
 
 export interface WalkthroughFile {
   uri: string;
   walkthrough: Walkthrough;
+  // Set for sources this extension does not write back to, such as CodeTour files
+  readOnly?: boolean;
+}
+
+export function getStepAnchors(step: WalkthroughStep): StepAnchor[] {
+  const primary: StepAnchor = {
+    file: step.file,
+    lines: step.lines,
+    columns: step.columns,
+    symbol: step.symbol,
+    contentHash: step.contentHash,
+  };
+  return [primary, ...(step.anchors ?? [])];
+}
+
+export function withStepAnchors(
+  step: WalkthroughStep,
+  anchors: StepAnchor[]
+): WalkthroughStep {
+  const [primary, ...rest] = anchors;
+  return {
+    ...step,
+    file: primary.file,
+    lines: primary.lines,
+    columns: primary.columns,
+    symbol: primary.symbol,
+    contentHash: primary.contentHash,
+    anchors: rest.length > 0 ? rest : undefined,
+  };
+}
+
+export interface ChapterRange {
+  chapter: WalkthroughChapter;
+  chapterIndex: number;
+  // 0-based, end exclusive
+  start: number;
+  end: number;
+}
+
+export function getChapterRanges(walkthrough: Walkthrough): ChapterRange[] {
+  const total = walkthrough.steps.length;
+  const chapters = (walkthrough.chapters ?? [])
+    .map((chapter, chapterIndex) => ({ chapter, chapterIndex }))
+    .filter(({ chapter }) => chapter.startStep >= 1 && chapter.startStep <= total)
+    .sort((a, b) => a.chapter.startStep - b.chapter.startStep);
+
+  return chapters.map(({ chapter, chapterIndex }, i) => ({
+    chapter,
+    chapterIndex,
+    start: chapter.startStep - 1,
+    end: i < chapters.length - 1 ? chapters[i + 1].chapter.startStep - 1 : total,
+  }));
+}
+
+// Each chapter's 1-based start once `shift` has moved it (0-based in and out), or null for chapters
+// left empty, past the last of `stepCount` steps or starting where a later chapter starts
+export function shiftChapterStarts(
+  chapters: WalkthroughChapter[],
+  stepCount: number,
+  shift: (start: number) => number
+): Array<number | null> {
+  const starts = chapters.map((c) => shift(c.startStep - 1) + 1);
+  return starts.map((start, i) => (start <= stepCount && !starts.slice(i + 1).includes(start) ? start : null));
+}
+
+// For editors inserting or deleting steps: moves chapter starts (0-based through `shift`) and
+// drops chapters left empty, past the last step or starting where a later chapter starts
+export function shiftChapters(
+  walkthrough: Walkthrough,
+  shift: (start: number) => number
+): WalkthroughChapter[] | undefined {
+  if (!walkthrough.chapters) {
+    return undefined;
+  }
+  const starts = shiftChapterStarts(walkthrough.chapters, walkthrough.steps.length, shift);
+  const kept = walkthrough.chapters.flatMap((c, i) => {
+    const start = starts[i];
+    return start === null ? [] : [{ ...c, startStep: start }];
+  });
+  return kept.length > 0 ? kept : undefined;
+}
+
+// The shift for moving step `from` to `to`: the other steps stay in their chapters, and a step
+// moved up onto a chapter's first step takes its place as the chapter's first step
+export function moveChapterShift(from: number, to: number): (start: number) => number {
+  return (start) => {
+    const afterRemoval = start > from ? start - 1 : start;
+    return afterRemoval > to || (afterRemoval === to && to > from) ? afterRemoval + 1 : afterRemoval;
+  };
+}
+
+export function findChapterForStep(
+  walkthrough: Walkthrough,
+  stepIndex: number
+): ChapterRange | null {
+  return (
+    getChapterRanges(walkthrough).find(
+      (r) => stepIndex >= r.start && stepIndex < r.end
+    ) ?? null
+  );
+}
+
+export function formatAnchorLocation(anchor: StepAnchor): string {
+  const [start, end] = anchor.lines;
+  if (anchor.columns) {
+    return `${anchor.file}:${start}:${anchor.columns[0]}-${end}:${anchor.columns[1]}`;
+  }
+  return `${anchor.file}:${start}-${end}`;
 }
@@ -0,0 +1,185 @@
+import { isCommitSha } from "../git/git";
+
+export type JsonPath = Array<string | number>;
+
+export interface ValidationIssue {
+  path: JsonPath;
+  message: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 1-based [start, end] line or column numbers, as the schema's lineRange and columnRange
+function isPositionPair(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((n) => Number.isInteger(n) && n >= 1)
+  );
+}
+
+function checkLocation(
+  target: Record<string, unknown>,
+  base: JsonPath,
+  label: string,
+  issues: ValidationIssue[]
+): void {
+  if (target.file === undefined) {
+    issues.push({ path: [...base, "file"], message: `${label} is missing required field "file".` });
+  } else if (typeof target.file !== "string") {
+    issues.push({ path: [...base, "file"], message: `"file" must be a string.` });
+  }
+
+  if (target.lines === undefined) {
+    issues.push({ path: [...base, "lines"], message: `${label} is missing required field "lines".` });
+  } else if (!isPositionPair(target.lines)) {
+    issues.push({ path: [...base, "lines"], message: `"lines" must be a [start, end] pair of line numbers of at least 1.` });
+  } else if (target.lines[0] > target.lines[1]) {
+    issues.push({
+      path: [...base, "lines"],
+      message: `Inverted range: start line ${target.lines[0]} is after end line ${target.lines[1]}.`,
+    });
+  }
+
+  if (target.columns !== undefined) {
+    if (!isPositionPair(target.columns)) {
+      issues.push({ path: [...base, "columns"], message: `"columns" must be a [start, end] pair of column numbers of at least 1.` });
+    } else if (
+      isPositionPair(target.lines) &&
+      target.lines[0] === target.lines[1] &&
+      target.columns[0] >= target.columns[1]
+    ) {
+      // The end column is exclusive, so on a single line it has to come after the start
+      issues.push({
+        path: [...base, "columns"],
+        message: `Inverted or empty column range: ${target.columns[0]}-${target.columns[1]} on a single line.`,
+      });
+    }
+  }
+
+  for (const key of ["symbol", "contentHash"] as const) {
+    if (target[key] !== undefined && typeof target[key] !== "string") {
+      issues.push({ path: [...base, key], message: `"${key}" must be a string.` });
+    }
+  }
+}
+
+function checkStep(step: unknown, index: number, issues: ValidationIssue[]): void {
+  const base: JsonPath = ["steps", index];
+
+  if (!isObject(step)) {
+    issues.push({ path: base, message: `Step ${index + 1} must be an object.` });
+    return;
+  }
+
+  checkLocation(step, base, `Step ${index + 1}`, issues);
+
+  if (step.subtitle === undefined) {
+    issues.push({ path: [...base, "subtitle"], message: `Step ${index + 1} is missing required field "subtitle".` });
+  } else if (typeof step.subtitle !== "string") {
+    issues.push({ path: [...base, "subtitle"], message: `"subtitle" must be a string.` });
+  }
+
+  if (step.duration !== undefined && typeof step.duration !== "number") {
+    issues.push({ path: [...base, "duration"], message: `"duration" must be a number of seconds.` });
+  }
+
+  if (step.anchors !== undefined) {
+    if (!Array.isArray(step.anchors)) {
+      issues.push({ path: [...base, "anchors"], message: `"anchors" must be an array.` });
+      return;
+    }
+    step.anchors.forEach((anchor, j) => {
+      const anchorPath: JsonPath = [...base, "anchors", j];
+      if (!isObject(anchor)) {
+        issues.push({ path: anchorPath, message: `Anchor ${j + 1} must be an object.` });
+        return;
+      }
+      checkLocation(anchor, anchorPath, `Anchor ${j + 1} of step ${index + 1}`, issues);
+    });
+  }
+}
+
+function checkChapter(chapter: unknown, index: number, issues: ValidationIssue[]): void {
+  const base: JsonPath = ["chapters", index];
+
+  if (!isObject(chapter)) {
+    issues.push({ path: base, message: `Chapter ${index + 1} must be an object.` });
+    return;
+  }
+
+  if (chapter.title === undefined) {
+    issues.push({ path: [...base, "title"], message: `Chapter ${index + 1} is missing required field "title".` });
+  } else if (typeof chapter.title !== "string") {
+    issues.push({ path: [...base, "title"], message: `"title" must be a string.` });
+  }
+
+  if (chapter.startStep === undefined) {
+    issues.push({ path: [...base, "startStep"], message: `Chapter ${index + 1} is missing required field "startStep".` });
+  } else if (typeof chapter.startStep !== "number") {
+    issues.push({ path: [...base, "startStep"], message: `"startStep" must be a 1-based step number.` });
+  }
+
+  if (chapter.description !== undefined && typeof chapter.description !== "string") {
+    issues.push({ path: [...base, "description"], message: `"description" must be a string.` });
+  }
+}
+
+// Structural checks mirroring schemas/walkthrough.schema.json; an empty result means the loader accepts the document
+export function validateWalkthroughStructure(data: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!isObject(data)) {
+    issues.push({ path: [], message: "A walkthrough must be a JSON object." });
+    return issues;
+  }
+
+  if (
+    data.schemaVersion !== undefined &&
+    !(Number.isInteger(data.schemaVersion) && (data.schemaVersion as number) >= 0)
+  ) {
+    issues.push({ path: ["schemaVersion"], message: `"schemaVersion" must be a non-negative integer.` });
+  }
+
+  for (const key of ["title", "description"] as const) {
+    if (data[key] === undefined) {
+      issues.push({ path: [key], message: `Missing required field "${key}".` });
+    } else if (typeof data[key] !== "string") {
+      issues.push({ path: [key], message: `"${key}" must be a string.` });
+    }
+  }
+
+  if (data.commitSha !== undefined && (typeof data.commitSha !== "string" || !isCommitSha(data.commitSha))) {
+    issues.push({ path: ["commitSha"], message: `"commitSha" must be a hexadecimal commit SHA.` });
+  }
+
+  if (data.chapters !== undefined) {
+    if (!Array.isArray(data.chapters)) {
+      issues.push({ path: ["chapters"], message: `"chapters" must be an array.` });
+    } else {
+      data.chapters.forEach((chapter, i) => checkChapter(chapter, i, issues));
+    }
+  }
+
+  if (data.steps === undefined) {
+    issues.push({ path: ["steps"], message: `Missing required field "steps".` });
+  } else if (!Array.isArray(data.steps)) {
+    issues.push({ path: ["steps"], message: `"steps" must be an array.` });
+  } else if (data.steps.length === 0) {
+    issues.push({ path: ["steps"], message: "A walkthrough needs at least one step." });
+  } else {
+    data.steps.forEach((step, i) => checkStep(step, i, issues));
+  }
+
+  return issues;
+}
+
+export function formatJsonPath(jsonPath: JsonPath): string {
+  return jsonPath.reduce<string>(
+    (acc, segment) =>
+      typeof segment === "number" ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment,
+    ""
+  );
+}
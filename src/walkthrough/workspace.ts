@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+
+// A walkthrough belongs to the workspace folder its file lives in, and step paths are relative to
+// that folder. In a multi-root workspace a step can point into another folder by prefixing its
+// path with the folder's name: "api/src/server.ts" from a walkthrough in the "web" folder. A path
+// that exists in the home folder always means that file, even if it starts with a folder's name.
+
+export interface StepFileLocation {
+  // Workspace folder (or, for files outside the workspace, directory) the path resolved in
+  root: string;
+  // Path relative to `root`, as git expects it when run from there
+  relativePath: string;
+  fsPath: string;
+}
+
+// Step paths are resolved on every hover, CodeLens and index rebuild, so whether a folder-prefixed
+// path also exists in the home folder is remembered until a file is created or deleted
+const homePathExists = new Map<string, boolean>();
+
+function existsInHome(fsPath: string): boolean {
+  let exists = homePathExists.get(fsPath);
+  if (exists === undefined) {
+    exists = fs.existsSync(fsPath);
+    homePathExists.set(fsPath, exists);
+  }
+  return exists;
+}
+
+export function watchStepPaths(): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*", false, true, false);
+  const clear = () => homePathExists.clear();
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidCreate(clear),
+    watcher.onDidDelete(clear),
+    vscode.workspace.onDidChangeWorkspaceFolders(clear)
+  );
+}
+
+// Falls back to the first folder for walkthroughs that don't live in the workspace, such as
+// in-memory walkthroughs handed over through the API
+export function getHomeFolder(fsPath?: string): vscode.WorkspaceFolder | undefined {
+  const owner = fsPath ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath)) : undefined;
+  return owner ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+export function locateStepFile(
+  file: string,
+  home: vscode.WorkspaceFolder | undefined = getHomeFolder()
+): StepFileLocation | null {
+  if (path.isAbsolute(file)) {
+    const owner = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file));
+    const root = owner?.uri.fsPath ?? path.dirname(file);
+    return { root, relativePath: path.relative(root, file), fsPath: file };
+  }
+
+  const [first, ...rest] = file.split(/[\\/]/);
+  const named =
+    rest.length > 0
+      ? vscode.workspace.workspaceFolders?.find((f) => f.name === first && f.index !== home?.index)
+      : undefined;
+  const prefixed = named && !(home && existsInHome(path.resolve(home.uri.fsPath, file))) ? named : undefined;
+  const folder = prefixed ?? home;
+  if (!folder) {
+    return null;
+  }
+
+  const relativePath = prefixed ? rest.join("/") : file;
+  return {
+    root: folder.uri.fsPath,
+    relativePath,
+    fsPath: path.resolve(folder.uri.fsPath, relativePath),
+  };
+}
+
+export function resolveStepFile(file: string, home?: vscode.WorkspaceFolder): string | null {
+  return locateStepFile(file, home)?.fsPath ?? null;
+}
+
+// The inverse of locateStepFile: how a step in a walkthrough homed in `home` refers to `uri`
+export function toStepPath(uri: vscode.Uri, home: vscode.WorkspaceFolder): string {
+  const owner = vscode.workspace.getWorkspaceFolder(uri);
+  if (owner && owner.index !== home.index) {
+    return `${owner.name}/${path.relative(owner.uri.fsPath, uri.fsPath).replace(/\\/g, "/")}`;
+  }
+  return path.relative(home.uri.fsPath, uri.fsPath);
+}